@@ -0,0 +1,71 @@
+/**
+ * Runtime configuration shared by all transports.
+ *
+ * Every Google endpoint base can be overridden individually, or all at once
+ * with GOOGLE_API_BASE_URL (e.g. pointing at the bundled fake server).
+ */
+
+export interface GoogleEndpoints {
+  places: string;
+  weather: string;
+  maps: string;
+  routes: string;
+  airQuality: string;
+}
+
+const DEFAULT_ENDPOINTS: GoogleEndpoints = {
+  places: 'https://places.googleapis.com/v1',
+  weather: 'https://weather.googleapis.com/v1',
+  maps: 'https://maps.googleapis.com/maps/api',
+  routes: 'https://routes.googleapis.com',
+  airQuality: 'https://airquality.googleapis.com/v1',
+};
+
+/**
+ * Endpoint bases for a single host serving every API under its own prefix,
+ * as the fake Google Maps Platform server does.
+ */
+export function endpointsForBaseUrl(baseUrl: string): GoogleEndpoints {
+  const base = baseUrl.replace(/\/+$/, '');
+  return {
+    places: `${base}/places/v1`,
+    weather: `${base}/weather/v1`,
+    maps: `${base}/maps/api`,
+    routes: `${base}/routes`,
+    airQuality: `${base}/airquality/v1`,
+  };
+}
+
+function resolveEndpoints(): GoogleEndpoints {
+  const base = process.env.GOOGLE_API_BASE_URL
+    ? endpointsForBaseUrl(process.env.GOOGLE_API_BASE_URL)
+    : DEFAULT_ENDPOINTS;
+
+  return {
+    places: process.env.GOOGLE_PLACES_API_BASE || base.places,
+    weather: process.env.GOOGLE_WEATHER_API_BASE || base.weather,
+    maps: process.env.GOOGLE_MAPS_API_BASE || base.maps,
+    routes: process.env.GOOGLE_ROUTES_API_BASE || base.routes,
+    airQuality: process.env.GOOGLE_AIR_QUALITY_API_BASE || base.airQuality,
+  };
+}
+
+// Placeholder key sent to a fake server, which ignores its value
+const OFFLINE_API_KEY = 'offline-key';
+
+// Get API key from environment (not required when talking to a fake server)
+export let GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY
+  || (process.env.GOOGLE_API_BASE_URL ? OFFLINE_API_KEY : undefined);
+
+// Upstream endpoint bases, read by tool handlers at call time
+export const ENDPOINTS: GoogleEndpoints = resolveEndpoints();
+
+/**
+ * Point every endpoint at a single base URL (used by --offline).
+ */
+export function useGoogleApiBaseUrl(baseUrl: string): void {
+  Object.assign(ENDPOINTS, endpointsForBaseUrl(baseUrl));
+  if (!GOOGLE_PLACES_API_KEY) {
+    GOOGLE_PLACES_API_KEY = OFFLINE_API_KEY;
+  }
+}
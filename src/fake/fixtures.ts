@@ -0,0 +1,465 @@
+/**
+ * Canned Google Maps Platform payloads served by the fake server.
+ *
+ * Shapes mirror the real APIs closely enough for every tool's parsing code
+ * to run; values are fixed so offline runs are deterministic.
+ */
+
+export const FAKE_PLACES: any[] = [
+  {
+    name: 'places/ChIJfake-pike-place-starbucks',
+    id: 'ChIJfake-pike-place-starbucks',
+    displayName: { text: 'Starbucks Pike Place', languageCode: 'en' },
+    formattedAddress: '1912 Pike Pl, Seattle, WA 98101, USA',
+    location: { latitude: 47.6100, longitude: -122.3425 },
+    types: ['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'],
+    rating: 4.3,
+    userRatingCount: 12650,
+    businessStatus: 'OPERATIONAL',
+    primaryType: 'coffee_shop',
+    googleMapsUri: 'https://maps.google.com/?cid=1000000000000000001',
+    nationalPhoneNumber: '(206) 448-8762',
+    internationalPhoneNumber: '+1 206-448-8762',
+    websiteUri: 'https://www.starbucks.com/store-locator/store/1',
+    regularOpeningHours: {
+      openNow: true,
+      periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+        open: { day, hour: 6, minute: 0 },
+        close: { day, hour: 21, minute: 0 },
+      })),
+      weekdayDescriptions: [
+        'Monday: 6:00 AM – 9:00 PM',
+        'Tuesday: 6:00 AM – 9:00 PM',
+        'Wednesday: 6:00 AM – 9:00 PM',
+        'Thursday: 6:00 AM – 9:00 PM',
+        'Friday: 6:00 AM – 9:00 PM',
+        'Saturday: 6:00 AM – 9:00 PM',
+        'Sunday: 6:00 AM – 9:00 PM',
+      ],
+    },
+    priceLevel: 'PRICE_LEVEL_MODERATE',
+    editorialSummary: { text: 'The original Starbucks location, open since 1971.', languageCode: 'en' },
+    accessibilityOptions: { wheelchairAccessibleEntrance: false },
+  },
+  {
+    name: 'places/ChIJfake-space-needle',
+    id: 'ChIJfake-space-needle',
+    displayName: { text: 'Space Needle', languageCode: 'en' },
+    formattedAddress: '400 Broad St, Seattle, WA 98109, USA',
+    location: { latitude: 47.6205, longitude: -122.3493 },
+    types: ['tourist_attraction', 'point_of_interest', 'establishment'],
+    rating: 4.7,
+    userRatingCount: 98210,
+    businessStatus: 'OPERATIONAL',
+    primaryType: 'tourist_attraction',
+    googleMapsUri: 'https://maps.google.com/?cid=1000000000000000002',
+    nationalPhoneNumber: '(206) 905-2100',
+    internationalPhoneNumber: '+1 206-905-2100',
+    websiteUri: 'https://www.spaceneedle.com/',
+    regularOpeningHours: {
+      openNow: true,
+      periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+        open: { day, hour: 10, minute: 0 },
+        close: { day, hour: 20, minute: 30 },
+      })),
+      weekdayDescriptions: [
+        'Monday: 10:00 AM – 8:30 PM',
+        'Tuesday: 10:00 AM – 8:30 PM',
+        'Wednesday: 10:00 AM – 8:30 PM',
+        'Thursday: 10:00 AM – 8:30 PM',
+        'Friday: 10:00 AM – 8:30 PM',
+        'Saturday: 10:00 AM – 8:30 PM',
+        'Sunday: 10:00 AM – 8:30 PM',
+      ],
+    },
+    currentOpeningHours: {
+      openNow: true,
+      periods: [{ open: { day: 3, hour: 10, minute: 0 }, close: { day: 3, hour: 22, minute: 0 } }],
+      weekdayDescriptions: ['Wednesday: 10:00 AM – 10:00 PM (extended hours)'],
+    },
+    priceLevel: 'PRICE_LEVEL_EXPENSIVE',
+    editorialSummary: { text: 'Landmark 605-ft. tower with a rotating glass floor and views of the city and Mount Rainier.', languageCode: 'en' },
+    accessibilityOptions: {
+      wheelchairAccessibleEntrance: true,
+      wheelchairAccessibleRestroom: true,
+      wheelchairAccessibleSeating: true,
+    },
+    photos: [
+      {
+        name: 'places/ChIJfake-space-needle/photos/fake-photo-1',
+        widthPx: 4032,
+        heightPx: 3024,
+        authorAttributions: [
+          {
+            displayName: 'Jordan Lee',
+            uri: 'https://maps.google.com/maps/contrib/100000000000000000001',
+            photoUri: 'https://lh3.googleusercontent.com/a/fake-author-1',
+          },
+        ],
+      },
+      {
+        name: 'places/ChIJfake-space-needle/photos/fake-photo-2',
+        widthPx: 3024,
+        heightPx: 4032,
+        authorAttributions: [
+          {
+            displayName: 'Space Needle',
+            uri: 'https://maps.google.com/maps/contrib/100000000000000000002',
+            photoUri: 'https://lh3.googleusercontent.com/a/fake-author-2',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'places/ChIJfake-eiffel-tower',
+    id: 'ChIJfake-eiffel-tower',
+    displayName: { text: 'Eiffel Tower', languageCode: 'en' },
+    formattedAddress: 'Av. Gustave Eiffel, 75007 Paris, France',
+    location: { latitude: 48.8584, longitude: 2.2945 },
+    types: ['tourist_attraction', 'point_of_interest', 'establishment'],
+    rating: 4.7,
+    userRatingCount: 412003,
+    businessStatus: 'OPERATIONAL',
+    primaryType: 'tourist_attraction',
+    googleMapsUri: 'https://maps.google.com/?cid=1000000000000000003',
+    nationalPhoneNumber: '08 92 70 12 39',
+    internationalPhoneNumber: '+33 8 92 70 12 39',
+    websiteUri: 'https://www.toureiffel.paris/',
+    regularOpeningHours: {
+      openNow: false,
+      periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+        open: { day, hour: 9, minute: 30 },
+        close: { day, hour: 23, minute: 45 },
+      })),
+      weekdayDescriptions: [
+        'Monday: 9:30 AM – 11:45 PM',
+        'Tuesday: 9:30 AM – 11:45 PM',
+        'Wednesday: 9:30 AM – 11:45 PM',
+        'Thursday: 9:30 AM – 11:45 PM',
+        'Friday: 9:30 AM – 11:45 PM',
+        'Saturday: 9:30 AM – 11:45 PM',
+        'Sunday: 9:30 AM – 11:45 PM',
+      ],
+    },
+    editorialSummary: { text: 'Iconic wrought-iron tower built for the 1889 World\'s Fair, with city views from three levels.', languageCode: 'en' },
+    accessibilityOptions: {
+      wheelchairAccessibleEntrance: true,
+      wheelchairAccessibleParking: false,
+    },
+  },
+];
+
+export const FAKE_GEOCODE_RESULTS: any[] = [
+  {
+    formatted_address: 'Av. Gustave Eiffel, 75007 Paris, France',
+    geometry: {
+      location: { lat: 48.8584, lng: 2.2945 },
+      location_type: 'ROOFTOP',
+      viewport: {
+        northeast: { lat: 48.8597, lng: 2.2958 },
+        southwest: { lat: 48.8570, lng: 2.2931 },
+      },
+    },
+    place_id: 'ChIJfake-eiffel-tower',
+    types: ['establishment', 'point_of_interest', 'tourist_attraction'],
+    address_components: [
+      { long_name: 'Avenue Gustave Eiffel', short_name: 'Av. Gustave Eiffel', types: ['route'] },
+      { long_name: 'Paris', short_name: 'Paris', types: ['locality', 'political'] },
+      { long_name: 'Île-de-France', short_name: 'IDF', types: ['administrative_area_level_1', 'political'] },
+      { long_name: 'France', short_name: 'FR', types: ['country', 'political'] },
+      { long_name: '75007', short_name: '75007', types: ['postal_code'] },
+    ],
+  },
+  {
+    formatted_address: '400 Broad St, Seattle, WA 98109, USA',
+    geometry: {
+      location: { lat: 47.6205, lng: -122.3493 },
+      location_type: 'ROOFTOP',
+      viewport: {
+        northeast: { lat: 47.6218, lng: -122.3480 },
+        southwest: { lat: 47.6192, lng: -122.3506 },
+      },
+    },
+    place_id: 'ChIJfake-space-needle',
+    types: ['establishment', 'point_of_interest', 'tourist_attraction'],
+    address_components: [
+      { long_name: '400', short_name: '400', types: ['street_number'] },
+      { long_name: 'Broad Street', short_name: 'Broad St', types: ['route'] },
+      { long_name: 'Seattle', short_name: 'Seattle', types: ['locality', 'political'] },
+      { long_name: 'Washington', short_name: 'WA', types: ['administrative_area_level_1', 'political'] },
+      { long_name: 'United States', short_name: 'US', types: ['country', 'political'] },
+      { long_name: '98109', short_name: '98109', types: ['postal_code'] },
+    ],
+  },
+  {
+    formatted_address: 'Seattle, WA, USA',
+    geometry: {
+      location: { lat: 47.6062, lng: -122.3321 },
+      location_type: 'APPROXIMATE',
+      viewport: {
+        northeast: { lat: 47.7341, lng: -122.2244 },
+        southwest: { lat: 47.4919, lng: -122.4596 },
+      },
+    },
+    place_id: 'ChIJfake-seattle',
+    types: ['locality', 'political'],
+    address_components: [
+      { long_name: 'Seattle', short_name: 'Seattle', types: ['locality', 'political'] },
+      { long_name: 'King County', short_name: 'King County', types: ['administrative_area_level_2', 'political'] },
+      { long_name: 'Washington', short_name: 'WA', types: ['administrative_area_level_1', 'political'] },
+      { long_name: 'United States', short_name: 'US', types: ['country', 'political'] },
+    ],
+  },
+];
+
+export const FAKE_CURRENT_CONDITIONS: any = {
+  currentTime: '2025-01-15T18:00:00Z',
+  timeZone: { id: 'America/Los_Angeles' },
+  isDaytime: true,
+  weatherCondition: {
+    iconBaseUri: 'https://maps.gstatic.com/weather/v1/cloudy',
+    description: { text: 'Cloudy', languageCode: 'en' },
+    type: 'CLOUDY',
+  },
+  temperature: { degrees: 8.2, unit: 'CELSIUS' },
+  feelsLikeTemperature: { degrees: 6.1, unit: 'CELSIUS' },
+  dewPoint: { degrees: 4.0, unit: 'CELSIUS' },
+  relativeHumidity: 75,
+  uvIndex: 1,
+  precipitation: {
+    probability: { percent: 20, type: 'RAIN' },
+    qpf: { quantity: 0, unit: 'MILLIMETERS' },
+  },
+  thunderstormProbability: 0,
+  airPressure: { meanSeaLevelMillibars: 1017.3 },
+  wind: {
+    direction: { degrees: 200, cardinal: 'SOUTH_SOUTHWEST' },
+    speed: { value: 12, unit: 'KILOMETERS_PER_HOUR' },
+    gust: { value: 22, unit: 'KILOMETERS_PER_HOUR' },
+  },
+  visibility: { distance: 16, unit: 'KILOMETERS' },
+  cloudCover: 90,
+};
+
+/**
+ * Offset from UTC (seconds) of an IANA zone at an instant, using the ICU
+ * data bundled with Node.
+ */
+export function zoneOffsetSeconds(timeZone: string, date: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 1000);
+}
+
+// Forecasts start at the top of the hour after FAKE_CURRENT_CONDITIONS, in Seattle
+const FORECAST_START_MS = Date.parse('2025-01-15T19:00:00Z');
+const FORECAST_TIME_ZONE = 'America/Los_Angeles';
+const FORECAST_CONDITIONS = [
+  { type: 'CLOUDY', text: 'Cloudy' },
+  { type: 'LIGHT_RAIN', text: 'Light rain' },
+  { type: 'RAIN', text: 'Rain' },
+  { type: 'PARTLY_CLOUDY', text: 'Partly cloudy' },
+  { type: 'CLEAR', text: 'Clear' },
+];
+
+function fakeDisplayDateTime(ms: number): any {
+  const offsetSeconds = zoneOffsetSeconds(FORECAST_TIME_ZONE, new Date(ms));
+  const local = new Date(ms + offsetSeconds * 1000);
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hours: local.getUTCHours(),
+    minutes: 0,
+    seconds: 0,
+    nanos: 0,
+    utcOffset: `${offsetSeconds}s`,
+  };
+}
+
+function fakeCondition(index: number): any {
+  const condition = FORECAST_CONDITIONS[index % FORECAST_CONDITIONS.length];
+  return {
+    iconBaseUri: `https://maps.gstatic.com/weather/v1/${condition.type.toLowerCase()}`,
+    description: { text: condition.text, languageCode: 'en' },
+    type: condition.type,
+  };
+}
+
+/**
+ * Metric weather hour starting at `startMs`; values vary smoothly with
+ * `index` so summaries have something to aggregate.
+ */
+function fakeWeatherHour(startMs: number, index: number): any {
+  const localHour = fakeDisplayDateTime(startMs).hours;
+  const degrees = Math.round((6 + 4 * Math.sin(((localHour - 9) / 24) * 2 * Math.PI)) * 10) / 10;
+  const raining = Math.floor(index / 3) % 5 === 1 || Math.floor(index / 3) % 5 === 2;
+  return {
+    interval: {
+      startTime: new Date(startMs).toISOString().replace('.000', ''),
+      endTime: new Date(startMs + 3600 * 1000).toISOString().replace('.000', ''),
+    },
+    displayDateTime: fakeDisplayDateTime(startMs),
+    isDaytime: localHour >= 8 && localHour < 17,
+    weatherCondition: fakeCondition(Math.floor(index / 3)),
+    temperature: { degrees, unit: 'CELSIUS' },
+    feelsLikeTemperature: { degrees: Math.round((degrees - 2) * 10) / 10, unit: 'CELSIUS' },
+    relativeHumidity: raining ? 90 : 70,
+    uvIndex: localHour >= 10 && localHour < 15 ? 1 : 0,
+    precipitation: {
+      probability: { percent: raining ? 80 : 10, type: 'RAIN' },
+      qpf: { quantity: raining ? 1.2 : 0, unit: 'MILLIMETERS' },
+    },
+    thunderstormProbability: raining ? 5 : 0,
+    wind: {
+      direction: { degrees: 200, cardinal: 'SOUTH_SOUTHWEST' },
+      speed: { value: 10 + (index % 6), unit: 'KILOMETERS_PER_HOUR' },
+      gust: { value: 20 + (index % 6), unit: 'KILOMETERS_PER_HOUR' },
+    },
+    visibility: { distance: raining ? 8 : 16, unit: 'KILOMETERS' },
+    cloudCover: raining ? 100 : 60,
+  };
+}
+
+/**
+ * Metric forecast hour `index` (0 = the next hour).
+ */
+export function fakeForecastHour(index: number): any {
+  return fakeWeatherHour(FORECAST_START_MS + index * 3600 * 1000, index);
+}
+
+/**
+ * Metric history hour `index` (0 = the last full hour before `nowMs`).
+ * Unlike forecasts these follow the real clock, since the tool checks them
+ * against the current time.
+ */
+export function fakeHistoryHour(index: number, nowMs: number): any {
+  const hourMs = 3600 * 1000;
+  return fakeWeatherHour(Math.floor(nowMs / hourMs) * hourMs - (index + 1) * hourMs, index);
+}
+
+/**
+ * Metric forecast day `index` (0 = today).
+ */
+export function fakeForecastDay(index: number): any {
+  // Local midnight in Seattle
+  const dayStartMs = Date.parse('2025-01-15T08:00:00Z') + index * 24 * 3600 * 1000;
+  const date = fakeDisplayDateTime(dayStartMs);
+  const part = (offset: number) => {
+    const hour = fakeForecastHour(index * 24 + offset);
+    return {
+      weatherCondition: hour.weatherCondition,
+      relativeHumidity: hour.relativeHumidity,
+      uvIndex: hour.uvIndex,
+      precipitation: hour.precipitation,
+      thunderstormProbability: hour.thunderstormProbability,
+      wind: hour.wind,
+      cloudCover: hour.cloudCover,
+    };
+  };
+  return {
+    interval: {
+      startTime: new Date(dayStartMs).toISOString().replace('.000', ''),
+      endTime: new Date(dayStartMs + 24 * 3600 * 1000).toISOString().replace('.000', ''),
+    },
+    displayDate: { year: date.year, month: date.month, day: date.day },
+    daytimeForecast: part(3),
+    nighttimeForecast: part(15),
+    maxTemperature: { degrees: 10 + (index % 3), unit: 'CELSIUS' },
+    minTemperature: { degrees: 2 + (index % 3), unit: 'CELSIUS' },
+    // 07:54 and 16:40 local
+    sunEvents: {
+      sunriseTime: new Date(dayStartMs + (7 * 60 + 54) * 60 * 1000).toISOString().replace('.000', ''),
+      sunsetTime: new Date(dayStartMs + (16 * 60 + 40) * 60 * 1000).toISOString().replace('.000', ''),
+    },
+  };
+}
+
+// Time zones the fake Time Zone API knows, each covering a circle around a city
+export const FAKE_TIME_ZONES: any[] = [
+  { timeZoneId: 'America/Los_Angeles', center: { lat: 47.6062, lng: -122.3321 }, radiusKm: 1500 },
+  { timeZoneId: 'Europe/Paris', center: { lat: 48.8566, lng: 2.3522 }, radiusKm: 800 },
+  { timeZoneId: 'Asia/Kolkata', center: { lat: 17.3850, lng: 78.4867 }, radiusKm: 1500 },
+  { timeZoneId: 'Australia/Adelaide', center: { lat: -34.9285, lng: 138.6007 }, radiusKm: 800 },
+];
+
+// 1x1 PNG served for every photo's media
+export const FAKE_PHOTO_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGPwmnATAALbAbQ+eVLWAAAAAElFTkSuQmCC';
+
+export const FAKE_ROUTE: any = {
+  duration: '1260s',
+  distanceMeters: 5400,
+  description: 'Elliott Ave W',
+  legs: [
+    {
+      duration: '1260s',
+      distanceMeters: 5400,
+      steps: [
+        {
+          travelMode: 'DRIVE',
+          distanceMeters: 600,
+          staticDuration: '120s',
+          navigationInstruction: { instructions: 'Head north on Pike Pl toward Virginia St' },
+        },
+        {
+          travelMode: 'DRIVE',
+          distanceMeters: 4800,
+          staticDuration: '1140s',
+          navigationInstruction: { instructions: 'Continue onto Elliott Ave W to the destination' },
+        },
+      ],
+    },
+  ],
+};
+
+function fakeAqiIndexes(uaqi: number, epa: number, dominantPollutant: string): any[] {
+  const uaqiCategory = uaqi >= 60 ? 'Good air quality' : 'Moderate air quality';
+  const epaCategory = epa <= 50 ? 'Good air quality' : 'Moderate air quality';
+  return [
+    { code: 'uaqi', displayName: 'Universal AQI', aqi: uaqi, aqiDisplay: String(uaqi), category: uaqiCategory, dominantPollutant },
+    { code: 'usa_epa', displayName: 'AQI (US)', aqi: epa, aqiDisplay: String(epa), category: epaCategory, dominantPollutant },
+  ];
+}
+
+export const FAKE_AIR_QUALITY: any = {
+  dateTime: '2025-01-15T18:00:00Z',
+  regionCode: 'us',
+  indexes: fakeAqiIndexes(68, 42, 'pm25'),
+  pollutants: [
+    { code: 'co', displayName: 'CO', fullName: 'Carbon monoxide', concentration: { value: 245.16, units: 'PARTS_PER_BILLION' } },
+    { code: 'no2', displayName: 'NO2', fullName: 'Nitrogen dioxide', concentration: { value: 12.4, units: 'PARTS_PER_BILLION' } },
+    { code: 'o3', displayName: 'O3', fullName: 'Ozone', concentration: { value: 21.3, units: 'PARTS_PER_BILLION' } },
+    { code: 'pm10', displayName: 'PM10', fullName: 'Inhalable particulate matter (<10µm)', concentration: { value: 14.8, units: 'MICROGRAMS_PER_CUBIC_METER' } },
+    { code: 'pm25', displayName: 'PM2.5', fullName: 'Fine particulate matter (<2.5µm)', concentration: { value: 9.6, units: 'MICROGRAMS_PER_CUBIC_METER' } },
+    { code: 'so2', displayName: 'SO2', fullName: 'Sulfur dioxide', concentration: { value: 0.8, units: 'PARTS_PER_BILLION' } },
+  ],
+  healthRecommendations: {
+    generalPopulation: 'With this level of air quality, you have no limitations. Enjoy the outdoors!',
+    elderly: 'If you start to feel respiratory discomfort such as coughing or breathing difficulties, consider reducing the intensity of your outdoor activities.',
+    lungDiseasePopulation: 'Reduce the intensity of your outdoor activities if you notice symptoms. Keep your medication handy.',
+    heartDiseasePopulation: 'If you start to feel discomfort, consider reducing the intensity of your outdoor activities.',
+    athletes: 'You can still be active outdoors. Consider shorter or less intense sessions if you notice symptoms.',
+    pregnantWomen: 'To keep you and your baby healthy, consider reducing the intensity of your outdoor activities if you feel discomfort.',
+    children: 'Children can be active outdoors as usual.',
+  },
+};
+
+/**
+ * Air quality forecast hour starting at `ms`; the AQI dips in the evening
+ * rush hours (local time in Seattle).
+ */
+export function fakeAirQualityHour(ms: number): any {
+  const localHour = fakeDisplayDateTime(ms).hours;
+  const rushHour = localHour >= 16 && localHour < 19;
+  return {
+    dateTime: new Date(ms).toISOString().replace('.000', ''),
+    indexes: rushHour ? fakeAqiIndexes(55, 61, 'no2') : fakeAqiIndexes(70, 38, 'pm25'),
+  };
+}
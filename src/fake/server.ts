@@ -0,0 +1,561 @@
+/**
+ * Fake Google Maps Platform server for offline runs.
+ *
+ * Serves canned responses for every upstream the tools call, each API under
+ * its own path prefix (see endpointsForBaseUrl in ../config.ts):
+ * - /places/v1   Places API (New): places:searchText, places:searchNearby,
+ *                places:autocomplete, places/{id}, places/{id}/photos/{photo}/media
+ * - /maps/api    Geocoding, Elevation and Time Zone (legacy JSON APIs)
+ * - /weather/v1  Weather API: currentConditions:lookup, forecast/hours:lookup,
+ *                forecast/days:lookup, history/hours:lookup
+ * - /routes      Routes API: directions/v2:computeRoutes
+ * - /airquality/v1  Air Quality API: currentConditions:lookup, forecast:lookup
+ * - /photo-host  Stands in for the image host photoUri points at
+ *
+ * Requests without an API key are rejected the way Google does, so error
+ * paths can be exercised too. Any key value is accepted.
+ *
+ * Transient failures can be injected with FAKE_GOOGLE_FAILURES, e.g.
+ * "weather=503x2,routes=429x1": the first N requests to that API fail with
+ * the given status (429s carry Retry-After: 1).
+ */
+
+import express, { Request, Response, Express } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { distanceMeters } from '../utils/geo.js';
+import {
+  FAKE_PLACES,
+  FAKE_GEOCODE_RESULTS,
+  FAKE_CURRENT_CONDITIONS,
+  FAKE_ROUTE,
+  FAKE_PHOTO_PNG_BASE64,
+  FAKE_TIME_ZONES,
+  fakeForecastHour,
+  fakeHistoryHour,
+  zoneOffsetSeconds,
+  fakeForecastDay,
+  FAKE_AIR_QUALITY,
+  fakeAirQualityHour,
+} from './fixtures.js';
+
+/**
+ * Google-style error body for the v1 (gRPC transcoded) APIs.
+ */
+function sendGoogleError(res: Response, code: number, status: string, message: string) {
+  res.status(code).json({ error: { code, message, status } });
+}
+
+function hasApiKey(req: Request): boolean {
+  return Boolean(req.get('X-Goog-Api-Key') || req.query.key);
+}
+
+/**
+ * Reject v1 API requests that carry no API key.
+ */
+function requireApiKey(req: Request, res: Response, next: () => void) {
+  if (!hasApiKey(req)) {
+    return sendGoogleError(res, 403, 'PERMISSION_DENIED', 'The request is missing a valid API key.');
+  }
+  next();
+}
+
+/**
+ * Keep only the fields named in an X-Goog-FieldMask (top-level paths after
+ * an optional prefix such as "places."), like the real Places API does.
+ */
+function applyFieldMask(obj: any, mask: string | undefined, prefix: string = ''): any {
+  if (!mask || mask === '*' || mask === `${prefix}*`) {
+    return obj;
+  }
+  const fields = mask.split(',')
+    .map((path) => path.trim())
+    .filter((path) => path.startsWith(prefix))
+    .map((path) => path.substring(prefix.length).split('.')[0]);
+  const result: any = {};
+  for (const field of fields) {
+    if (obj[field] !== undefined) {
+      result[field] = obj[field];
+    }
+  }
+  return result;
+}
+
+/**
+ * Which API a fake request path belongs to (matches UpstreamApi names).
+ */
+function apiForPath(path: string): string | null {
+  if (path.startsWith('/places/')) return 'places';
+  if (path.startsWith('/weather/')) return 'weather';
+  if (path.startsWith('/routes/')) return 'routes';
+  if (path.startsWith('/airquality/')) return 'airquality';
+  if (path.startsWith('/maps/api/geocode/')) return 'geocoding';
+  if (path.startsWith('/maps/api/elevation/')) return 'elevation';
+  if (path.startsWith('/maps/api/timezone/')) return 'timezone';
+  if (path.startsWith('/photo-host/')) return 'photos';
+  return null;
+}
+
+/**
+ * Parse FAKE_GOOGLE_FAILURES into remaining failures per API.
+ */
+function parseInjectedFailures(raw: string | undefined): Map<string, { status: number; remaining: number }> {
+  const failures = new Map<string, { status: number; remaining: number }>();
+  for (const spec of (raw || '').split(',').map((s) => s.trim()).filter(Boolean)) {
+    const match = spec.match(/^(\w+)=(\d{3})(?:x(\d+))?$/);
+    if (!match) {
+      console.error(`[FAKE] Ignoring invalid failure spec: ${spec}`);
+      continue;
+    }
+    failures.set(match[1], { status: parseInt(match[2], 10), remaining: match[3] ? parseInt(match[3], 10) : 1 });
+  }
+  return failures;
+}
+
+function queryWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 2);
+}
+
+function matchesQuery(haystack: string, query: string): boolean {
+  const text = haystack.toLowerCase();
+  return queryWords(query).some((word) => text.includes(word));
+}
+
+function placeSearchText(place: any): string {
+  return [place.displayName?.text, place.formattedAddress, ...(place.types || [])].join(' ');
+}
+
+function inRectangle(place: any, rectangle: any): boolean {
+  const { latitude, longitude } = place.location;
+  const { low, high } = rectangle;
+  const inLng = low.longitude <= high.longitude
+    ? longitude >= low.longitude && longitude <= high.longitude
+    : longitude >= low.longitude || longitude <= high.longitude;
+  return latitude >= low.latitude && latitude <= high.latitude && inLng;
+}
+
+/**
+ * Text Search filters: openNow, minRating, priceLevels, includedType
+ * (+ strictTypeFiltering) and a rectangular locationRestriction.
+ */
+function matchesSearchFilters(place: any, body: any): boolean {
+  if (body.openNow && !place.regularOpeningHours?.openNow) {
+    return false;
+  }
+  if (body.minRating !== undefined && (place.rating || 0) < Math.ceil(body.minRating * 2) / 2) {
+    return false;
+  }
+  if (body.priceLevels?.length && !body.priceLevels.includes(place.priceLevel)) {
+    return false;
+  }
+  if (body.includedType && body.strictTypeFiltering && !place.types.includes(body.includedType)) {
+    return false;
+  }
+  const rectangle = body.locationRestriction?.rectangle;
+  return !rectangle || inRectangle(place, rectangle);
+}
+
+/**
+ * Geocoding components filter, e.g. "country:FR|postal_code:75007".
+ */
+function matchesComponents(result: any, components: string): boolean {
+  return components.split('|').filter(Boolean).every((filter) => {
+    const [type, value] = filter.split(':');
+    return result.address_components.some((component: any) => component.types.includes(type)
+      && [component.long_name, component.short_name].some((name) => name.toLowerCase() === value.toLowerCase()));
+  });
+}
+
+/**
+ * Reverse geocoding: fixtures within 10 km of latlng, most specific
+ * (ROOFTOP) first, filtered by result_type and location_type.
+ */
+function reverseGeocode(req: Request): any {
+  const [lat, lng] = String(req.query.latlng).split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return { status: 'INVALID_REQUEST', error_message: 'Invalid latlng parameter.', results: [] };
+  }
+  const resultTypes = req.query.result_type ? String(req.query.result_type).split('|') : [];
+  const locationTypes = req.query.location_type ? String(req.query.location_type).split('|') : [];
+  const precision = ['ROOFTOP', 'RANGE_INTERPOLATED', 'GEOMETRIC_CENTER', 'APPROXIMATE'];
+  const results = FAKE_GEOCODE_RESULTS
+    .filter((r) => distanceMeters({ lat, lng }, r.geometry.location) <= 10000)
+    .filter((r) => resultTypes.length === 0 || r.types.some((type: string) => resultTypes.includes(type)))
+    .filter((r) => locationTypes.length === 0 || locationTypes.includes(r.geometry.location_type))
+    .sort((a, b) => precision.indexOf(a.geometry.location_type) - precision.indexOf(b.geometry.location_type));
+  return { status: results.length > 0 ? 'OK' : 'ZERO_RESULTS', results };
+}
+
+/**
+ * Time Zone API response: rawOffset is the standard (winter) offset and
+ * dstOffset whatever daylight saving adds at the timestamp.
+ */
+function timeZoneResponse(timeZoneId: string, timestamp: number): any {
+  const date = new Date(timestamp * 1000);
+  const year = date.getUTCFullYear();
+  const rawOffset = Math.min(
+    zoneOffsetSeconds(timeZoneId, new Date(Date.UTC(year, 0, 1))),
+    zoneOffsetSeconds(timeZoneId, new Date(Date.UTC(year, 6, 1))),
+  );
+  const dstOffset = zoneOffsetSeconds(timeZoneId, date) - rawOffset;
+  const timeZoneName = new Intl.DateTimeFormat('en-US', { timeZone: timeZoneId, timeZoneName: 'long' })
+    .formatToParts(date)
+    .find((part) => part.type === 'timeZoneName')!.value;
+  return { status: 'OK', dstOffset, rawOffset, timeZoneId, timeZoneName };
+}
+
+/**
+ * Convert a metric Weather API payload to unitsSystem=IMPERIAL, the way
+ * Google does: every {degrees|value|quantity|distance, unit} pair is rewritten.
+ */
+function toImperial(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(toImperial);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  const round = (n: number) => Math.round(n * 100) / 100;
+  switch (value.unit) {
+    case 'CELSIUS':
+      return { ...value, degrees: round(value.degrees * 9 / 5 + 32), unit: 'FAHRENHEIT' };
+    case 'KILOMETERS_PER_HOUR':
+      return { ...value, value: round(value.value / 1.609344), unit: 'MILES_PER_HOUR' };
+    case 'MILLIMETERS':
+      return { ...value, quantity: round(value.quantity / 25.4), unit: 'INCHES' };
+    case 'KILOMETERS':
+      return { ...value, distance: round(value.distance / 1.609344), unit: 'MILES' };
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, toImperial(child)]));
+}
+
+function inUnitsSystem(req: Request, payload: any): any {
+  return req.query.unitsSystem === 'IMPERIAL' ? toImperial(payload) : payload;
+}
+
+/**
+ * One page of a forecast or history lookup, given the request's pageSize and
+ * pageToken (query or body). Page tokens are "fake-page:<offset>".
+ */
+function fakePage(paging: { pageSize?: any; pageToken?: any }, total: number, maxPageSize: number, defaultPageSize: number, build: (index: number) => any): any {
+  const pageSize = Math.min(Number(paging.pageSize) || defaultPageSize, maxPageSize);
+  const match = /^fake-page:(\d+)$/.exec(String(paging.pageToken || 'fake-page:0'));
+  const offset = match ? parseInt(match[1], 10) : 0;
+  const items = [];
+  for (let index = offset; index < Math.min(offset + pageSize, total); index++) {
+    items.push(build(index));
+  }
+  return { items, nextPageToken: offset + pageSize < total ? `fake-page:${offset + pageSize}` : undefined };
+}
+
+/**
+ * Create the fake server app.
+ */
+export function createFakeGoogleServer(): Express {
+  const app = express();
+  app.use(express.json());
+
+  app.use((req: Request, _res: Response, next) => {
+    console.error(`[FAKE] ${req.method} ${req.path}`);
+    next();
+  });
+
+  const injectedFailures = parseInjectedFailures(process.env.FAKE_GOOGLE_FAILURES);
+  app.use((req: Request, res: Response, next) => {
+    const failure = injectedFailures.get(apiForPath(req.path) || '');
+    if (!failure || failure.remaining <= 0) {
+      return next();
+    }
+    failure.remaining--;
+    if (failure.status === 429) {
+      res.set('Retry-After', '1');
+      return sendGoogleError(res, 429, 'RESOURCE_EXHAUSTED', 'Quota exceeded (injected failure).');
+    }
+    sendGoogleError(res, failure.status, 'UNAVAILABLE', 'The service is currently unavailable (injected failure).');
+  });
+
+  // Places API (New)
+  app.post('/places/v1/places\\:searchText', requireApiKey, (req: Request, res: Response) => {
+    const query = String(req.body?.textQuery || '');
+    const pageSize = Math.min(req.body?.pageSize || 20, 20);
+    let offset = 0;
+    if (req.body?.pageToken) {
+      const match = /^fake-page:(\d+)$/.exec(req.body.pageToken);
+      if (!match) {
+        return sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'Invalid page token.');
+      }
+      offset = parseInt(match[1], 10);
+    }
+    if (req.body?.locationRestriction && !req.body.locationRestriction.rectangle) {
+      return sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'locationRestriction must be a rectangle for Text Search.');
+    }
+    const matches = FAKE_PLACES
+      .filter((place) => matchesQuery(placeSearchText(place), query))
+      .filter((place) => matchesSearchFilters(place, req.body));
+    const places = matches.slice(offset, offset + pageSize);
+    const mask = req.get('X-Goog-FieldMask');
+    const body: any = places.length > 0 ? { places: places.map((place) => applyFieldMask(place, mask, 'places.')) } : {};
+    if (offset + pageSize < Math.min(matches.length, 60) && mask?.split(',').includes('nextPageToken')) {
+      body.nextPageToken = `fake-page:${offset + pageSize}`;
+    }
+    res.json(body);
+  });
+
+  app.post('/places/v1/places\\:searchNearby', requireApiKey, (req: Request, res: Response) => {
+    const circle = req.body?.locationRestriction?.circle;
+    if (!circle?.center || !(circle.radius > 0)) {
+      return sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'locationRestriction.circle is required.');
+    }
+    const center = { lat: circle.center.latitude, lng: circle.center.longitude };
+    const included: string[] = req.body.includedTypes || [];
+    const excluded: string[] = req.body.excludedTypes || [];
+    const distanceOf = (place: any) => distanceMeters(center, { lat: place.location.latitude, lng: place.location.longitude });
+    const places = FAKE_PLACES
+      .filter((place) => distanceOf(place) <= circle.radius)
+      .filter((place) => included.length === 0 || place.types.some((type: string) => included.includes(type)))
+      .filter((place) => !place.types.some((type: string) => excluded.includes(type)))
+      .sort((a, b) => req.body.rankPreference === 'DISTANCE'
+        ? distanceOf(a) - distanceOf(b)
+        : (b.userRatingCount || 0) - (a.userRatingCount || 0))
+      .slice(0, req.body.maxResultCount || 20);
+    const mask = req.get('X-Goog-FieldMask');
+    res.json(places.length > 0 ? { places: places.map((place) => applyFieldMask(place, mask, 'places.')) } : {});
+  });
+
+  app.post('/places/v1/places\\:autocomplete', requireApiKey, (req: Request, res: Response) => {
+    const input = String(req.body?.input || '');
+    if (!input) {
+      return sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'input is required.');
+    }
+    const origin = req.body.origin;
+    const restriction = req.body.locationRestriction?.circle;
+    const primaryTypes: string[] = req.body.includedPrimaryTypes || [];
+    const places = FAKE_PLACES
+      .filter((place) => matchesQuery(placeSearchText(place), input))
+      .filter((place) => primaryTypes.length === 0 || primaryTypes.includes(place.primaryType))
+      .filter((place) => !restriction || distanceMeters(
+        { lat: restriction.center.latitude, lng: restriction.center.longitude },
+        { lat: place.location.latitude, lng: place.location.longitude },
+      ) <= restriction.radius);
+    const suggestions = places.map((place) => ({
+      placePrediction: {
+        place: place.name,
+        placeId: place.id,
+        text: { text: `${place.displayName.text}, ${place.formattedAddress}` },
+        structuredFormat: {
+          mainText: { text: place.displayName.text },
+          secondaryText: { text: place.formattedAddress },
+        },
+        types: place.types,
+        ...(origin && {
+          distanceMeters: Math.round(distanceMeters(
+            { lat: origin.latitude, lng: origin.longitude },
+            { lat: place.location.latitude, lng: place.location.longitude },
+          )),
+        }),
+      },
+    }));
+    res.json(suggestions.length > 0 ? { suggestions } : {});
+  });
+
+  // Like Google, photo media answers with a redirect to the image bytes, or
+  // with the image URL as JSON when skipHttpRedirect=true
+  app.get('/places/v1/places/:placeId/photos/:photoId/media', requireApiKey, (req: Request, res: Response) => {
+    const name = `places/${req.params.placeId}/photos/${req.params.photoId}`;
+    const place = FAKE_PLACES.find((p) => p.id === req.params.placeId);
+    if (!place?.photos?.some((photo: any) => photo.name === name)) {
+      return sendGoogleError(res, 404, 'NOT_FOUND', `Photo '${name}' not found.`);
+    }
+    if (!req.query.maxWidthPx && !req.query.maxHeightPx) {
+      return sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'maxWidthPx or maxHeightPx is required.');
+    }
+    const photoPath = `/photo-host/${req.params.photoId}`;
+    if (req.query.skipHttpRedirect === 'true') {
+      return res.json({ name, photoUri: `${req.protocol}://${req.get('host')}${photoPath}` });
+    }
+    res.redirect(302, photoPath);
+  });
+
+  // Stands in for the image host, which is not a Google API: refuse API keys
+  // so a client that leaks its key there is caught
+  app.get('/photo-host/:photoId', (req: Request, res: Response) => {
+    if (hasApiKey(req)) {
+      return sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'The image host does not take API keys.');
+    }
+    res.type('image/png').send(Buffer.from(FAKE_PHOTO_PNG_BASE64, 'base64'));
+  });
+
+  app.get('/places/v1/places/:placeId', requireApiKey, (req: Request, res: Response) => {
+    const place = FAKE_PLACES.find((p) => p.id === req.params.placeId);
+    if (!place) {
+      return sendGoogleError(res, 404, 'NOT_FOUND', `Place '${req.params.placeId}' not found.`);
+    }
+    res.json(applyFieldMask(place, req.get('X-Goog-FieldMask')));
+  });
+
+  // Geocoding API
+  app.get('/maps/api/geocode/json', (req: Request, res: Response) => {
+    if (!hasApiKey(req)) {
+      return res.json({ status: 'REQUEST_DENIED', error_message: 'You must use an API key to authenticate each request.', results: [] });
+    }
+    if (req.query.latlng) {
+      return res.json(reverseGeocode(req));
+    }
+    if (req.query.place_id) {
+      const results = FAKE_GEOCODE_RESULTS.filter((r) => r.place_id === req.query.place_id);
+      if (results.length === 0) {
+        return res.json({ status: 'NOT_FOUND', error_message: 'The place ID was not found.', results: [] });
+      }
+      return res.json({ status: 'OK', results });
+    }
+    const address = String(req.query.address || '');
+    if (!address) {
+      return res.json({ status: 'INVALID_REQUEST', error_message: 'Missing the address parameter.', results: [] });
+    }
+    const results = FAKE_GEOCODE_RESULTS
+      .filter((r) => matchesQuery(r.formatted_address, address))
+      .filter((r) => matchesComponents(r, String(req.query.components || '')));
+    res.json({ status: results.length > 0 ? 'OK' : 'ZERO_RESULTS', results });
+  });
+
+  // Time Zone API
+  app.get('/maps/api/timezone/json', (req: Request, res: Response) => {
+    if (!hasApiKey(req)) {
+      return res.json({ status: 'REQUEST_DENIED', errorMessage: 'You must use an API key to authenticate each request.' });
+    }
+    const [lat, lng] = String(req.query.location || '').split(',').map(Number);
+    const timestamp = Number(req.query.timestamp);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || !Number.isFinite(timestamp)) {
+      return res.json({ status: 'INVALID_REQUEST', errorMessage: 'Invalid location or timestamp parameter.' });
+    }
+    const zone = FAKE_TIME_ZONES.find((z) => distanceMeters({ lat, lng }, z.center) <= z.radiusKm * 1000);
+    if (!zone) {
+      return res.json({ status: 'ZERO_RESULTS' });
+    }
+    res.json(timeZoneResponse(zone.timeZoneId, timestamp));
+  });
+
+  // Elevation API
+  app.get('/maps/api/elevation/json', (req: Request, res: Response) => {
+    if (!hasApiKey(req)) {
+      return res.json({ status: 'REQUEST_DENIED', error_message: 'You must use an API key to authenticate each request.', results: [] });
+    }
+    const points = String(req.query.locations || '').split('|').filter(Boolean);
+    const results = points.map((point) => {
+      const [lat, lng] = point.split(',').map(Number);
+      return {
+        elevation: Math.round(Math.abs(lat * lng) % 500 * 100) / 100,
+        location: { lat, lng },
+        resolution: 4.771975,
+      };
+    });
+    if (results.some((r) => isNaN(r.location.lat) || isNaN(r.location.lng))) {
+      return res.json({ status: 'INVALID_REQUEST', error_message: 'Invalid locations parameter.', results: [] });
+    }
+    res.json({ status: 'OK', results });
+  });
+
+  // Weather API
+  app.get('/weather/v1/currentConditions\\:lookup', requireApiKey, (req: Request, res: Response) => {
+    res.json(inUnitsSystem(req, FAKE_CURRENT_CONDITIONS));
+  });
+
+  app.get('/weather/v1/forecast/hours\\:lookup', requireApiKey, (req: Request, res: Response) => {
+    const hours = Math.min(Number(req.query.hours) || 240, 240);
+    const page = fakePage(req.query, hours, 24, 24, fakeForecastHour);
+    res.json(inUnitsSystem(req, {
+      forecastHours: page.items,
+      timeZone: { id: 'America/Los_Angeles' },
+      ...(page.nextPageToken && { nextPageToken: page.nextPageToken }),
+    }));
+  });
+
+  app.get('/weather/v1/forecast/days\\:lookup', requireApiKey, (req: Request, res: Response) => {
+    const days = Math.min(Number(req.query.days) || 10, 10);
+    const page = fakePage(req.query, days, 10, 5, fakeForecastDay);
+    res.json(inUnitsSystem(req, {
+      forecastDays: page.items,
+      timeZone: { id: 'America/Los_Angeles' },
+      ...(page.nextPageToken && { nextPageToken: page.nextPageToken }),
+    }));
+  });
+
+  // History is served most recent hour first, as Google does
+  app.get('/weather/v1/history/hours\\:lookup', requireApiKey, (req: Request, res: Response) => {
+    const hours = Math.min(Number(req.query.hours) || 24, 24);
+    const nowMs = Date.now();
+    const page = fakePage(req.query, hours, 24, 24, (index: number) => fakeHistoryHour(index, nowMs));
+    res.json(inUnitsSystem(req, {
+      historyHours: page.items,
+      timeZone: { id: 'America/Los_Angeles' },
+      ...(page.nextPageToken && { nextPageToken: page.nextPageToken }),
+    }));
+  });
+
+  // Routes API
+  app.post('/routes/directions/v2\\:computeRoutes', requireApiKey, (req: Request, res: Response) => {
+    if (!req.body?.origin || !req.body?.destination) {
+      return sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'Origin and destination must be set.');
+    }
+    res.json({ routes: [FAKE_ROUTE] });
+  });
+
+  // Air Quality API. Coverage ends south of 60°S, which exercises the
+  // "unavailable for this location" error.
+  const airQualityLocation = (req: Request, res: Response): boolean => {
+    const location = req.body?.location;
+    if (typeof location?.latitude !== 'number' || typeof location?.longitude !== 'number') {
+      sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'location must be set.');
+      return false;
+    }
+    if (location.latitude < -60) {
+      sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'Information is unavailable for this location. Please try a different location.');
+      return false;
+    }
+    return true;
+  };
+
+  app.post('/airquality/v1/currentConditions\\:lookup', requireApiKey, (req: Request, res: Response) => {
+    if (airQualityLocation(req, res)) {
+      res.json(FAKE_AIR_QUALITY);
+    }
+  });
+
+  app.post('/airquality/v1/forecast\\:lookup', requireApiKey, (req: Request, res: Response) => {
+    if (!airQualityLocation(req, res)) {
+      return;
+    }
+    const startMs = Date.parse(req.body.period?.startTime);
+    const endMs = Date.parse(req.body.period?.endTime);
+    if (isNaN(startMs) || isNaN(endMs) || endMs < startMs) {
+      return sendGoogleError(res, 400, 'INVALID_ARGUMENT', 'period must have a startTime and a later endTime.');
+    }
+    const hours = Math.min(Math.floor((endMs - startMs) / 3600000) + 1, 96);
+    const page = fakePage(req.body, hours, 168, 24, (index: number) => fakeAirQualityHour(startMs + index * 3600000));
+    res.json({
+      hourlyForecasts: page.items,
+      regionCode: 'us',
+      ...(page.nextPageToken && { nextPageToken: page.nextPageToken }),
+    });
+  });
+
+  app.use((req: Request, res: Response) => {
+    sendGoogleError(res, 404, 'NOT_FOUND', `No fake handler for ${req.method} ${req.path}`);
+  });
+
+  return app;
+}
+
+/**
+ * Start the fake server; resolves with its base URL once listening.
+ * Pass port 0 for an ephemeral port.
+ */
+export function startFakeGoogleServer(port: number = 0): Promise<{ server: Server; baseUrl: string }> {
+  const app = createFakeGoogleServer();
+  return new Promise((resolve) => {
+    const server = app.listen(port, '127.0.0.1', () => {
+      const address = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${address.port}` });
+    });
+  });
+}
@@ -3,7 +3,9 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
+  InitializeRequestSchema,
   ListToolsRequestSchema,
+  SetLevelRequestSchema,
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
@@ -11,6 +13,12 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import express, { Request, Response } from 'express';
 import { createServer as createHttpServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
+import { GOOGLE_PLACES_API_KEY, useGoogleApiBaseUrl } from './config.js';
+import { listTools, getTool, callTool, validateToolArguments } from './tools/registry.js';
+import { formatValidationIssues } from './utils/validation.js';
+import { ToolContext, LogLevel, DEFAULT_LOG_LEVEL, isLogLevelEnabled } from './tools/common.js';
+import { SERVER_INFO, SERVER_CAPABILITIES, LATEST_PROTOCOL_VERSION, negotiateProtocolVersion } from './utils/protocol.js';
+import { hashToken } from './transport/auth.js';
 
 // Handle --version flag
 if (process.argv.includes('--version')) {
@@ -18,503 +26,25 @@ if (process.argv.includes('--version')) {
   process.exit(0);
 }
 
-// Get API key from environment
-const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
-
-if (!GOOGLE_PLACES_API_KEY) {
-  console.error('[ERROR] GOOGLE_PLACES_API_KEY environment variable is required');
-  process.exit(1);
-}
-
-// New Places API base URL
-const PLACES_API_BASE = 'https://places.googleapis.com/v1';
-
-// Tool definitions
-const TOOLS = [
-  {
-    name: 'search_places',
-    description: 'Search for places using text query to get suggestions with Google Place IDs.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query (e.g., "Starbucks near Seattle")',
-        },
-        location: {
-          type: 'object',
-          description: 'Optional location bias {lat: number, lng: number}',
-          properties: {
-            lat: { type: 'number' },
-            lng: { type: 'number' },
-          },
-        },
-        radius: {
-          type: 'number',
-          description: 'Search radius in meters (default: 5000, max: 50000)',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'get_place_details',
-    description: 'Get detailed information about a specific place using its Google Place ID.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        place_id: {
-          type: 'string',
-          description: 'Google Place ID from search results',
-        },
-      },
-      required: ['place_id'],
-    },
-  },
-  {
-    name: 'get_weather',
-    description: 'Get current weather conditions for a location.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        location: {
-          type: 'object',
-          description: 'Location coordinates {lat: number, lng: number}',
-          properties: {
-            lat: { type: 'number' },
-            lng: { type: 'number' },
-          },
-          required: ['lat', 'lng'],
-        },
-        units: {
-          type: 'string',
-          description: 'Temperature units: "metric", "imperial", or "standard". Default: metric',
-          enum: ['metric', 'imperial', 'standard'],
-        },
-      },
-      required: ['location'],
-    },
-  },
-  {
-    name: 'get_elevation',
-    description: 'Get elevation data for one or more locations.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        locations: {
-          type: 'array',
-          description: 'Array of location coordinates [{lat: number, lng: number}]',
-          items: {
-            type: 'object',
-            properties: {
-              lat: { type: 'number' },
-              lng: { type: 'number' },
-            },
-            required: ['lat', 'lng'],
-          },
-        },
-      },
-      required: ['locations'],
-    },
-  },
-  {
-    name: 'geocode_address',
-    description: 'Convert a human-readable address or place name to lat/lng coordinates. Use before calling get_weather or get_directions when you have an address instead of coordinates.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        address: {
-          type: 'string',
-          description: 'Address or place name to geocode (e.g., "Microsoft India, Hyderabad" or "Eiffel Tower, Paris")',
-        },
-      },
-      required: ['address'],
-    },
-  },
-  {
-    name: 'get_directions',
-    description: 'Get directions and travel time between two locations. Supports driving, walking, transit, and bicycling modes. Use for commute time estimation during daily planning.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        origin: {
-          type: 'object',
-          description: 'Starting location. Provide either place_id or lat/lng coordinates.',
-          properties: {
-            place_id: { type: 'string', description: 'Google Place ID' },
-            lat: { type: 'number' },
-            lng: { type: 'number' },
-          },
-        },
-        destination: {
-          type: 'object',
-          description: 'Ending location. Provide either place_id or lat/lng coordinates.',
-          properties: {
-            place_id: { type: 'string', description: 'Google Place ID' },
-            lat: { type: 'number' },
-            lng: { type: 'number' },
-          },
-        },
-        mode: {
-          type: 'string',
-          description: 'Travel mode (default: driving)',
-          enum: ['driving', 'walking', 'transit', 'bicycling'],
-        },
-        departure_time: {
-          type: 'string',
-          description: 'Departure time for traffic-aware duration. Use "now" for current conditions, or a Unix timestamp string. Only applies to driving and transit.',
-        },
-      },
-      required: ['origin', 'destination'],
-    },
-  },
-];
-
-async function handleSearchPlaces(args: any) {
-  const { query, location, radius = 5000 } = args;
-  console.error(`[DEBUG] Searching places for: "${query}"`);
-  
-  const requestBody: any = {
-    textQuery: query,
-  };
-
-  if (location?.lat && location?.lng) {
-    requestBody.locationBias = {
-      circle: {
-        center: {
-          latitude: location.lat,
-          longitude: location.lng,
-        },
-        radius: Math.min(radius, 50000),
-      },
-    };
-  }
-
-  const response = await fetch(`${PLACES_API_BASE}/places:searchText`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
-      'X-Goog-FieldMask': 'places.name,places.displayName,places.formattedAddress,places.id,places.location,places.types,places.rating,places.userRatingCount,places.businessStatus',
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Places API error (${response.status}): ${errorText}`);
+// Handle --hash-token flag: print the SHA-256 hash to put in MCP_AUTH_TOKENS_FILE
+const hashTokenIndex = process.argv.indexOf('--hash-token');
+if (hashTokenIndex !== -1) {
+  const token = process.argv[hashTokenIndex + 1];
+  if (!token) {
+    console.error('[ERROR] Usage: googleplaces-mcp-server --hash-token <token>');
+    process.exit(1);
   }
-
-  const data: any = await response.json();
-  
-  const results = (data.places || []).slice(0, 10).map((place: any) => {
-    const resourceName = place.name || `places/${place.id}`;
-    
-    return {
-      name: place.displayName?.text || 'Unknown',
-      address: place.formattedAddress || 'No address',
-      place_id: place.id,
-      resource_name: resourceName,
-      location: {
-        lat: place.location?.latitude,
-        lng: place.location?.longitude,
-      },
-      types: place.types || [],
-      rating: place.rating,
-      user_ratings_total: place.userRatingCount,
-      business_status: place.businessStatus,
-    };
-  });
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          query: query,
-          count: results.length,
-          results: results,
-        }, null, 2),
-      },
-    ],
-  };
-}
-
-async function handleGetPlaceDetails(args: any) {
-  const { place_id } = args;
-  console.error(`[DEBUG] Getting details for place_id: ${place_id}`);
-
-  const placeId = place_id.startsWith('places/') ? place_id.substring(7) : place_id;
-  const fullUrl = `${PLACES_API_BASE}/places/${placeId}`;
-  
-  const response = await fetch(fullUrl, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
-      'X-Goog-FieldMask': 'id,displayName,formattedAddress',
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Places API error (${response.status}): ${errorText}`);
-  }
-
-  const place: any = await response.json();
-
-  const details = {
-    name: place.displayName?.text || 'Unknown',
-    address: place.formattedAddress || 'No address',
-    place_id: place.id,
-    location: {
-      lat: place.location?.latitude,
-      lng: place.location?.longitude,
-    },
-  };
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          details: details,
-        }, null, 2),
-      },
-    ],
-  };
-}
-
-async function handleGetWeather(args: any) {
-  const { location, units = 'metric' } = args;
-  const { lat, lng } = location;
-  console.error(`[DEBUG] Getting weather for location: ${lat}, ${lng}`);
-
-  const unitsSystem = units === 'imperial' ? 'IMPERIAL' : 'METRIC';
-  const weatherUrl = `https://weather.googleapis.com/v1/currentConditions:lookup?key=${GOOGLE_PLACES_API_KEY}&location.latitude=${lat}&location.longitude=${lng}&unitsSystem=${unitsSystem}`;
-  
-  const weatherResponse = await fetch(weatherUrl);
-
-  if (!weatherResponse.ok) {
-    const errorText = await weatherResponse.text();
-    throw new Error(`Google Weather API error (${weatherResponse.status}): ${errorText}`);
-  }
-
-  const weatherData: any = await weatherResponse.json();
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          data: weatherData,
-        }, null, 2),
-      },
-    ],
-  };
-}
-
-async function handleGetElevation(args: any) {
-  const { locations } = args;
-  console.error(`[DEBUG] Getting elevation for ${locations.length} location(s)`);
-
-  const locationsParam = locations.map((loc: any) => `${loc.lat},${loc.lng}`).join('|');
-  const elevationUrl = `https://maps.googleapis.com/maps/api/elevation/json?locations=${encodeURIComponent(locationsParam)}&key=${GOOGLE_PLACES_API_KEY}`;
-  
-  const response = await fetch(elevationUrl);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Elevation API error (${response.status}): ${errorText}`);
-  }
-
-  const data: any = await response.json();
-
-  if (data.status !== 'OK') {
-    throw new Error(`Elevation API error: ${data.status}`);
-  }
-
-  const results = data.results.map((result: any) => ({
-    elevation: result.elevation,
-    location: {
-      lat: result.location.lat,
-      lng: result.location.lng,
-    },
-  }));
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          count: results.length,
-          results: results,
-        }, null, 2),
-      },
-    ],
-  };
-}
-
-async function handleGeocodeAddress(args: any) {
-  const { address } = args;
-  console.error(`[DEBUG] Geocoding address: "${address}"`);
-
-  const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${GOOGLE_PLACES_API_KEY}`;
-  const response = await fetch(url);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Geocoding API error (${response.status}): ${errorText}`);
-  }
-
-  const data: any = await response.json();
-
-  if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
-    throw new Error(`Geocoding API error: ${data.status}`);
-  }
-
-  const results = (data.results || []).slice(0, 3).map((r: any) => ({
-    formatted_address: r.formatted_address,
-    lat: r.geometry.location.lat,
-    lng: r.geometry.location.lng,
-    place_id: r.place_id,
-    types: r.types,
-  }));
-
-  return {
-    content: [{
-      type: 'text',
-      text: JSON.stringify({ success: true, address, count: results.length, results }, null, 2),
-    }],
-  };
-}
-
-const ROUTES_TRAVEL_MODE: Record<string, string> = {
-  driving: 'DRIVE',
-  walking: 'WALK',
-  transit: 'TRANSIT',
-  bicycling: 'BICYCLE',
-};
-
-function buildRoutesWaypoint(loc: any): any {
-  if (loc.place_id) return { placeId: loc.place_id };
-  if (loc.lat !== undefined && loc.lng !== undefined) {
-    return { location: { latLng: { latitude: loc.lat, longitude: loc.lng } } };
-  }
-  throw new Error('Location must have place_id or lat/lng');
-}
-
-function parseDuration(durationStr: string): { value: number; text: string } {
-  const seconds = parseInt(durationStr.replace('s', ''), 10) || 0;
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.round((seconds % 3600) / 60);
-  const text = hours > 0 ? `${hours} hr ${minutes} min` : `${minutes} min`;
-  return { value: seconds, text };
+  console.log(hashToken(token));
+  process.exit(0);
 }
 
-async function handleGetDirections(args: any) {
-  const { origin, destination, mode = 'driving', departure_time } = args;
-  const travelMode = ROUTES_TRAVEL_MODE[mode] || 'DRIVE';
-  console.error(`[DEBUG] Getting directions mode=${travelMode} from ${JSON.stringify(origin)} to ${JSON.stringify(destination)}`);
-
-  const body: any = {
-    origin: buildRoutesWaypoint(origin),
-    destination: buildRoutesWaypoint(destination),
-    travelMode,
-  };
-
-  if (travelMode === 'DRIVE') {
-    body.routingPreference = 'TRAFFIC_AWARE';
-  }
-
-  if (departure_time) {
-    const ts = parseInt(departure_time, 10);
-    body.departureTime = departure_time === 'now'
-      ? new Date().toISOString()
-      : isNaN(ts) ? departure_time : new Date(ts * 1000).toISOString();
-  }
-
-  const fieldMask = [
-    'routes.duration',
-    'routes.distanceMeters',
-    'routes.description',
-    'routes.legs.duration',
-    'routes.legs.distanceMeters',
-    'routes.legs.steps.navigationInstruction',
-    'routes.legs.steps.distanceMeters',
-    'routes.legs.steps.staticDuration',
-    'routes.legs.steps.transitDetails',
-    'routes.legs.steps.travelMode',
-  ].join(',');
-
-  const response = await fetch('https://routes.googleapis.com/directions/v2:computeRoutes', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
-      'X-Goog-FieldMask': fieldMask,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Routes API error (${response.status}): ${errorText}`);
-  }
-
-  const data: any = await response.json();
-
-  if (!data.routes || data.routes.length === 0) {
-    throw new Error('No routes found');
-  }
+// --offline serves every Google API from the bundled fake server; --fake-google runs only that server
+const useOffline = process.argv.includes('--offline');
+const runFakeGoogle = process.argv.includes('--fake-google');
 
-  const route = data.routes[0];
-  const leg = route.legs?.[0];
-
-  const duration = parseDuration(route.duration || '0s');
-  const distanceKm = route.distanceMeters ? `${(route.distanceMeters / 1000).toFixed(1)} km` : null;
-
-  const steps = (leg?.steps || []).map((step: any) => {
-    const s: any = {
-      mode: step.travelMode,
-      duration: step.staticDuration ? parseDuration(step.staticDuration).text : null,
-      distance: step.distanceMeters ? `${(step.distanceMeters / 1000).toFixed(1)} km` : null,
-      instruction: step.navigationInstruction?.instructions,
-    };
-    if (step.transitDetails) {
-      const td = step.transitDetails;
-      s.transit = {
-        line: td.transitLine?.nameShort || td.transitLine?.name,
-        departure_stop: td.stopDetails?.departureStop?.name,
-        arrival_stop: td.stopDetails?.arrivalStop?.name,
-        num_stops: td.stopCount,
-      };
-    }
-    return s;
-  });
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          mode,
-          duration,
-          distance: {
-            value: route.distanceMeters,
-            text: distanceKm,
-          },
-          summary: route.description,
-          steps,
-        }, null, 2),
-      },
-    ],
-  };
+if (!GOOGLE_PLACES_API_KEY && !useOffline && !runFakeGoogle) {
+  console.error('[ERROR] GOOGLE_PLACES_API_KEY environment variable is required');
+  process.exit(1);
 }
 
 // Start the server
@@ -531,6 +61,20 @@ async function main() {
     PORT = parseInt(process.env.PORT);
   }
 
+  if (runFakeGoogle) {
+    const { startFakeGoogleServer } = await import('./fake/server.js');
+    const { baseUrl } = await startFakeGoogleServer(PORT);
+    console.error(`[DEBUG] Fake Google Maps Platform server listening on ${baseUrl} (set GOOGLE_API_BASE_URL to use it)`);
+    return;
+  }
+
+  if (useOffline) {
+    const { startFakeGoogleServer } = await import('./fake/server.js');
+    const { baseUrl } = await startFakeGoogleServer();
+    useGoogleApiBaseUrl(baseUrl);
+    console.error(`[DEBUG] Offline mode: Google APIs served by fake server at ${baseUrl}`);
+  }
+
   if (useHttp) {
     // Run in HTTP mode (Streamable HTTP per MCP spec)
     const { runHttpServer } = await import('./transport/http.js');
@@ -539,38 +83,62 @@ async function main() {
   } else {
     // Run in stdio mode (default)
     console.error('[DEBUG] Starting in Stdio mode...');
-    const app = new Server({
-      name: 'googleplaces-mcp-server',
-      version: '1.0.0',
+    const app = new Server(SERVER_INFO, { capabilities: SERVER_CAPABILITIES });
+
+    // Negotiate with the same rules as the HTTP transport and remember the version for tool output
+    let protocolVersion = LATEST_PROTOCOL_VERSION;
+    app.setRequestHandler(InitializeRequestSchema, async (request) => {
+      protocolVersion = negotiateProtocolVersion(request.params.protocolVersion);
+      return {
+        protocolVersion,
+        capabilities: SERVER_CAPABILITIES,
+        serverInfo: SERVER_INFO,
+      };
+    });
+
+    // Same default level as HTTP sessions; replaces the SDK's handler, which sends everything until a level is set
+    let logLevel: LogLevel = DEFAULT_LOG_LEVEL;
+    app.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      logLevel = request.params.level;
+      return {};
     });
 
     app.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: TOOLS,
+      tools: listTools(protocolVersion),
     }));
 
-    app.setRequestHandler(CallToolRequestSchema, async (request) => {
+    app.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-      console.error(`[DEBUG] Calling tool: ${name}`);
-
-      let result: any;
-
-      if (name === 'search_places') {
-        result = await handleSearchPlaces(args);
-      } else if (name === 'geocode_address') {
-        result = await handleGeocodeAddress(args);
-      } else if (name === 'get_place_details') {
-        result = await handleGetPlaceDetails(args);
-      } else if (name === 'get_weather') {
-        result = await handleGetWeather(args);
-      } else if (name === 'get_elevation') {
-        result = await handleGetElevation(args);
-      } else if (name === 'get_directions') {
-        result = await handleGetDirections(args);
-      } else {
+      if (!getTool(name)) {
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
       }
 
-      return result;
+      const issues = validateToolArguments(name, args);
+      if (issues.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, formatValidationIssues(name, issues), { errors: issues });
+      }
+
+      // Progress goes back on the request (when the client asked for it); logs honour logging/setLevel
+      const progressToken = request.params._meta?.progressToken;
+      const context: ToolContext = {
+        progress: (progress, total, message) => {
+          if (progressToken === undefined) {
+            return;
+          }
+          extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message },
+          }).catch(() => {});
+        },
+        log: (level, data) => {
+          if (!isLogLevelEnabled(level, logLevel)) {
+            return;
+          }
+          app.sendLoggingMessage({ level, logger: 'googleplaces-mcp-server', data }).catch(() => {});
+        },
+      };
+
+      return callTool(name, args, context, protocolVersion);
     });
 
     const transport = new StdioServerTransport();
@@ -0,0 +1,265 @@
+/**
+ * Air Quality API tool: current conditions and an optional hourly forecast.
+ */
+
+import { GOOGLE_PLACES_API_KEY, ENDPOINTS } from '../config.js';
+import { ToolDefinition, jsonResult, latLngSchema, resultSchema, READ_ONLY_ANNOTATIONS, LAT_LNG_RESULT_SCHEMA, NULLABLE_STRING, NULLABLE_NUMBER } from './common.js';
+import { cachedLookup } from '../utils/cache.js';
+import { upstreamErrorFromResponse } from '../utils/errors.js';
+import { upstreamFetch } from '../upstream/client.js';
+
+// Google forecasts air quality up to 96 hours ahead
+const MAX_FORECAST_HOURS = 96;
+const FORECAST_PAGE_SIZE = 24;
+
+const CURRENT_EXTRA_COMPUTATIONS = [
+  'LOCAL_AQI',
+  'HEALTH_RECOMMENDATIONS',
+  'DOMINANT_POLLUTANT_CONCENTRATION',
+  'POLLUTANT_CONCENTRATION',
+];
+
+const CONCENTRATION_UNITS: Record<string, string> = {
+  PARTS_PER_BILLION: 'ppb',
+  MICROGRAMS_PER_CUBIC_METER: 'µg/m³',
+};
+
+// healthRecommendations keys -> result keys
+const HEALTH_GROUPS: Record<string, string> = {
+  generalPopulation: 'general_population',
+  elderly: 'elderly',
+  lungDiseasePopulation: 'lung_disease',
+  heartDiseasePopulation: 'heart_disease',
+  athletes: 'athletes',
+  pregnantWomen: 'pregnant_women',
+  children: 'children',
+};
+
+async function airQualityPost(path: string, body: any): Promise<any> {
+  const response = await upstreamFetch('airquality', `${ENDPOINTS.airQuality}/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await upstreamErrorFromResponse('airquality', response);
+  }
+
+  return response.json();
+}
+
+/**
+ * Hourly forecast starting at the next full hour, following page tokens
+ * until `hours` periods are collected.
+ */
+async function fetchForecastHours(requestBase: any, hours: number): Promise<any[]> {
+  const hourMs = 3600 * 1000;
+  const startMs = Math.ceil(Date.now() / hourMs) * hourMs;
+  const periods: any[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const data = await airQualityPost('forecast:lookup', {
+      ...requestBase,
+      period: {
+        startTime: new Date(startMs).toISOString(),
+        endTime: new Date(startMs + (hours - 1) * hourMs).toISOString(),
+      },
+      pageSize: FORECAST_PAGE_SIZE,
+      ...(pageToken && { pageToken }),
+    });
+    periods.push(...(data.hourlyForecasts || []));
+    pageToken = data.nextPageToken;
+  } while (pageToken && periods.length < hours);
+
+  return periods.slice(0, hours);
+}
+
+function normalizeIndex(index: any): any {
+  return {
+    code: index.code,
+    name: index.displayName ?? null,
+    aqi: index.aqi ?? null,
+    aqi_display: index.aqiDisplay ?? null,
+    category: index.category ?? null,
+    dominant_pollutant: index.dominantPollutant ?? null,
+  };
+}
+
+function normalizePollutant(pollutant: any): any {
+  const concentration = pollutant.concentration;
+  return {
+    code: pollutant.code,
+    name: pollutant.displayName ?? null,
+    full_name: pollutant.fullName ?? null,
+    concentration: typeof concentration?.value === 'number'
+      ? { value: concentration.value, unit: CONCENTRATION_UNITS[concentration.units] || concentration.units }
+      : null,
+  };
+}
+
+function normalizeHealthRecommendations(recommendations: any): any {
+  if (!recommendations) {
+    return null;
+  }
+  const result: any = {};
+  for (const [key, name] of Object.entries(HEALTH_GROUPS)) {
+    result[name] = recommendations[key] ?? null;
+  }
+  return result;
+}
+
+/**
+ * Universal AQI apart from the local indexes. The dominant pollutant comes
+ * from the local index when there is one, since that is what local
+ * authorities report.
+ */
+function splitIndexes(indexes: any[] = []): { universal: any; local: any[]; dominantPollutant: string | null } {
+  const normalized = indexes.map(normalizeIndex);
+  const universal = normalized.find((index) => index.code === 'uaqi') || null;
+  const local = normalized.filter((index) => index.code !== 'uaqi');
+  const dominantPollutant = local.find((index) => index.dominant_pollutant)?.dominant_pollutant
+    ?? universal?.dominant_pollutant
+    ?? null;
+  return { universal, local, dominantPollutant };
+}
+
+function summarizeForecastHour(hour: any): any {
+  const { universal, local, dominantPollutant } = splitIndexes(hour.indexes);
+  return {
+    time: hour.dateTime ?? null,
+    universal_aqi: universal?.aqi ?? null,
+    category: universal?.category ?? null,
+    local_aqi: local[0]?.aqi ?? null,
+    local_category: local[0]?.category ?? null,
+    dominant_pollutant: dominantPollutant,
+  };
+}
+
+async function handleGetAirQuality(args: any) {
+  const { location, forecast_hours, language_code } = args;
+  console.error(`[DEBUG] Getting air quality for ${location.lat}, ${location.lng}${forecast_hours ? ` with ${forecast_hours}h forecast` : ''}`);
+
+  const requestBase = {
+    location: { latitude: location.lat, longitude: location.lng },
+    universalAqi: true,
+    ...(language_code && { languageCode: language_code }),
+  };
+
+  const keyParts = { lat: location.lat, lng: location.lng, language_code: language_code ?? null, forecast_hours: forecast_hours ?? 0 };
+  const { value: airQuality, cache } = await cachedLookup<any>('get_air_quality', keyParts, async () => {
+    const [current, forecast] = await Promise.all([
+      airQualityPost('currentConditions:lookup', { ...requestBase, extraComputations: CURRENT_EXTRA_COMPUTATIONS }),
+      forecast_hours ? fetchForecastHours({ ...requestBase, extraComputations: ['LOCAL_AQI'] }, forecast_hours) : undefined,
+    ]);
+    return { current, forecast };
+  });
+
+  const { current, forecast } = airQuality;
+  const { universal, local, dominantPollutant } = splitIndexes(current.indexes);
+
+  return jsonResult({
+    success: true,
+    location,
+    cache,
+    observed_at: current.dateTime ?? null,
+    region_code: current.regionCode ?? null,
+    universal_aqi: universal,
+    local_indexes: local,
+    dominant_pollutant: dominantPollutant,
+    pollutants: (current.pollutants || []).map(normalizePollutant),
+    health_recommendations: normalizeHealthRecommendations(current.healthRecommendations),
+    forecast: forecast
+      ? { count: forecast.length, periods: forecast.map(summarizeForecastHour) }
+      : null,
+  });
+}
+
+const INDEX_SCHEMA = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', description: 'e.g. "uaqi", "usa_epa", "deu_uba"' },
+    name: NULLABLE_STRING,
+    aqi: NULLABLE_NUMBER,
+    aqi_display: NULLABLE_STRING,
+    category: NULLABLE_STRING,
+    dominant_pollutant: NULLABLE_STRING,
+  },
+};
+
+export const getAirQualityTool: ToolDefinition = {
+  name: 'get_air_quality',
+  title: 'Get Air Quality',
+  description: 'Get current air quality at a location: universal AQI, local indexes (e.g. US EPA), dominant pollutant, pollutant concentrations and health recommendations. Set forecast_hours for an hourly AQI forecast when planning outdoor activities.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      location: latLngSchema('Location coordinates {lat: number, lng: number}'),
+      forecast_hours: {
+        type: 'integer',
+        description: `Also return an hourly forecast for this many hours, starting with the next hour (1-${MAX_FORECAST_HOURS})`,
+        minimum: 1,
+        maximum: MAX_FORECAST_HOURS,
+      },
+      language_code: {
+        type: 'string',
+        description: 'Language for categories and recommendations, e.g. "en", "de"',
+        minLength: 2,
+      },
+    },
+    required: ['location'],
+  },
+  outputSchema: resultSchema({
+    location: LAT_LNG_RESULT_SCHEMA,
+    observed_at: NULLABLE_STRING,
+    region_code: NULLABLE_STRING,
+    universal_aqi: { ...INDEX_SCHEMA, type: ['object', 'null'] },
+    local_indexes: { type: 'array', items: INDEX_SCHEMA },
+    dominant_pollutant: NULLABLE_STRING,
+    pollutants: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          code: { type: 'string' },
+          name: NULLABLE_STRING,
+          full_name: NULLABLE_STRING,
+          concentration: {
+            type: ['object', 'null'],
+            properties: { value: { type: 'number' }, unit: { type: 'string' } },
+          },
+        },
+      },
+    },
+    health_recommendations: {
+      type: ['object', 'null'],
+      properties: Object.fromEntries(Object.values(HEALTH_GROUPS).map((name) => [name, NULLABLE_STRING])),
+    },
+    forecast: {
+      type: ['object', 'null'],
+      properties: {
+        count: { type: 'number' },
+        periods: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              time: NULLABLE_STRING,
+              universal_aqi: NULLABLE_NUMBER,
+              category: NULLABLE_STRING,
+              local_aqi: NULLABLE_NUMBER,
+              local_category: NULLABLE_STRING,
+              dominant_pollutant: NULLABLE_STRING,
+            },
+          },
+        },
+      },
+    },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetAirQuality,
+};
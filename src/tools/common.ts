@@ -0,0 +1,153 @@
+/**
+ * Shared types and helpers for tool definitions.
+ */
+
+import { UpstreamError } from '../utils/errors.js';
+
+/**
+ * MCP tool result as returned from tools/call.
+ */
+export interface ToolResult {
+  content: any[];
+  isError?: boolean;
+  [key: string]: any;
+}
+
+// MCP logging levels, least to most severe
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// Level in effect until the client sends logging/setLevel, on every transport
+export const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+/**
+ * Whether a message at `level` passes a client's minimum level.
+ */
+export function isLogLevelEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Server-to-client channel for a tool call. Each transport decides how
+ * progress and log notifications reach the client.
+ */
+export interface ToolContext {
+  progress(progress: number, total?: number, message?: string): void;
+  log(level: LogLevel, data: any): void;
+}
+
+export const NOOP_TOOL_CONTEXT: ToolContext = {
+  progress: () => {},
+  log: () => {},
+};
+
+/**
+ * A tool declares its name, schema and handler once; every transport
+ * lists and dispatches through the registry.
+ */
+export interface ToolDefinition {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: any;
+  // Shape of structuredContent (the JSON payload), for clients on 2025-06-18+
+  outputSchema: any;
+  annotations?: {
+    readOnlyHint?: boolean;
+    openWorldHint?: boolean;
+    idempotentHint?: boolean;
+  };
+  handler: (args: any, context: ToolContext) => Promise<ToolResult>;
+}
+
+// {lat, lng} as it appears in tool results
+export const LAT_LNG_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    lat: { type: 'number' },
+    lng: { type: 'number' },
+  },
+};
+
+// Result fields that are null when Google does not report them
+export const NULLABLE_STRING = { type: ['string', 'null'] };
+export const NULLABLE_NUMBER = { type: ['number', 'null'] };
+export const NULLABLE_BOOLEAN = { type: ['boolean', 'null'] };
+
+// Every tool here only reads from Google
+export const READ_ONLY_ANNOTATIONS = { readOnlyHint: true, openWorldHint: true };
+
+/**
+ * outputSchema for the shared {success, cache?, error?, ...} envelope plus
+ * the tool's own result properties.
+ */
+export function resultSchema(properties: Record<string, any>): any {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      cache: { type: 'string', enum: ['hit', 'miss'] },
+      error: {
+        type: 'object',
+        description: 'Present when success is false',
+        properties: {
+          code: { type: 'string' },
+          api: { type: 'string' },
+          message: { type: 'string' },
+          hint: { type: 'string' },
+        },
+      },
+      ...properties,
+    },
+    required: ['success'],
+  };
+}
+
+/**
+ * Wrap a classified upstream failure as an isError tool result, so the model
+ * sees the code and hint instead of a transport-level error.
+ */
+export function upstreamErrorResult(error: UpstreamError): ToolResult {
+  return {
+    ...jsonResult({
+      success: false,
+      error: error.toJSON(),
+    }),
+    isError: true,
+  };
+}
+
+/**
+ * Wrap a JSON payload as MCP text content, plus structuredContent for
+ * clients that support it (stripped by the registry for older ones).
+ */
+export function jsonResult(payload: any): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+    structuredContent: payload,
+  };
+}
+
+// Coordinate schemas shared by every tool that takes a location
+export const LAT_SCHEMA = { type: 'number', minimum: -90, maximum: 90 };
+export const LNG_SCHEMA = { type: 'number', minimum: -180, maximum: 180 };
+
+/**
+ * Schema for a required {lat, lng} object.
+ */
+export function latLngSchema(description: string): any {
+  return {
+    type: 'object',
+    description,
+    properties: {
+      lat: LAT_SCHEMA,
+      lng: LNG_SCHEMA,
+    },
+    required: ['lat', 'lng'],
+  };
+}
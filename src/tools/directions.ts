@@ -0,0 +1,211 @@
+/**
+ * Routes API tool: directions and travel time.
+ */
+
+import { GOOGLE_PLACES_API_KEY, ENDPOINTS } from '../config.js';
+import { ToolDefinition, jsonResult, resultSchema, READ_ONLY_ANNOTATIONS, LAT_SCHEMA, LNG_SCHEMA, NULLABLE_STRING } from './common.js';
+import { UpstreamError, upstreamErrorFromResponse } from '../utils/errors.js';
+import { upstreamFetch } from '../upstream/client.js';
+import { resolveLocalTime, LOCAL_TIME_PATTERN } from './timezone.js';
+import { locatePlaceId } from './geocoding.js';
+
+const ROUTES_TRAVEL_MODE: Record<string, string> = {
+  driving: 'DRIVE',
+  walking: 'WALK',
+  transit: 'TRANSIT',
+  bicycling: 'BICYCLE',
+};
+
+function buildRoutesWaypoint(loc: any): any {
+  if (loc.place_id) return { placeId: loc.place_id };
+  if (loc.lat !== undefined && loc.lng !== undefined) {
+    return { location: { latLng: { latitude: loc.lat, longitude: loc.lng } } };
+  }
+  throw new Error('Location must have place_id or lat/lng');
+}
+
+function parseDuration(durationStr: string): { value: number; text: string } {
+  const seconds = parseInt(durationStr.replace('s', ''), 10) || 0;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  const text = hours > 0 ? `${hours} hr ${minutes} min` : `${minutes} min`;
+  return { value: seconds, text };
+}
+
+async function handleGetDirections(args: any) {
+  const { origin, destination, mode = 'driving', departure_time } = args;
+  const travelMode = ROUTES_TRAVEL_MODE[mode] || 'DRIVE';
+  console.error(`[DEBUG] Getting directions mode=${travelMode} from ${JSON.stringify(origin)} to ${JSON.stringify(destination)}`);
+
+  const body: any = {
+    origin: buildRoutesWaypoint(origin),
+    destination: buildRoutesWaypoint(destination),
+    travelMode,
+  };
+
+  if (travelMode === 'DRIVE') {
+    body.routingPreference = 'TRAFFIC_AWARE';
+  }
+
+  // Local wall-clock departures are resolved in the origin's time zone
+  let departure: any;
+  if (departure_time && new RegExp(LOCAL_TIME_PATTERN).test(departure_time)) {
+    const originLocation = origin.place_id ? await locatePlaceId(origin.place_id) : origin;
+    const resolved = await resolveLocalTime(originLocation, departure_time);
+    body.departureTime = new Date(resolved.timestamp * 1000).toISOString();
+    departure = {
+      local_time: resolved.local_time,
+      time_zone_id: resolved.time_zone.time_zone_id,
+      timestamp: resolved.timestamp,
+    };
+  } else if (departure_time) {
+    body.departureTime = departure_time === 'now'
+      ? new Date().toISOString()
+      : new Date(parseInt(departure_time, 10) * 1000).toISOString();
+  }
+
+  const fieldMask = [
+    'routes.duration',
+    'routes.distanceMeters',
+    'routes.description',
+    'routes.legs.duration',
+    'routes.legs.distanceMeters',
+    'routes.legs.steps.navigationInstruction',
+    'routes.legs.steps.distanceMeters',
+    'routes.legs.steps.staticDuration',
+    'routes.legs.steps.transitDetails',
+    'routes.legs.steps.travelMode',
+  ].join(',');
+
+  const response = await upstreamFetch('routes', `${ENDPOINTS.routes}/directions/v2:computeRoutes`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
+      'X-Goog-FieldMask': fieldMask,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await upstreamErrorFromResponse('routes', response);
+  }
+
+  const data: any = await response.json();
+
+  if (!data.routes || data.routes.length === 0) {
+    throw new UpstreamError('ZERO_RESULTS', 'routes', 'No routes found');
+  }
+
+  const route = data.routes[0];
+  const leg = route.legs?.[0];
+
+  const duration = parseDuration(route.duration || '0s');
+  const distanceKm = route.distanceMeters ? `${(route.distanceMeters / 1000).toFixed(1)} km` : null;
+
+  const steps = (leg?.steps || []).map((step: any) => {
+    const s: any = {
+      mode: step.travelMode,
+      duration: step.staticDuration ? parseDuration(step.staticDuration).text : null,
+      distance: step.distanceMeters ? `${(step.distanceMeters / 1000).toFixed(1)} km` : null,
+      instruction: step.navigationInstruction?.instructions,
+    };
+    if (step.transitDetails) {
+      const td = step.transitDetails;
+      s.transit = {
+        line: td.transitLine?.nameShort || td.transitLine?.name,
+        departure_stop: td.stopDetails?.departureStop?.name,
+        arrival_stop: td.stopDetails?.arrivalStop?.name,
+        num_stops: td.stopCount,
+      };
+    }
+    return s;
+  });
+
+  return jsonResult({
+    success: true,
+    mode,
+    duration,
+    distance: {
+      value: route.distanceMeters,
+      text: distanceKm,
+    },
+    summary: route.description,
+    ...(departure && { departure }),
+    steps,
+  });
+}
+
+function waypointSchema(description: string): any {
+  return {
+    type: 'object',
+    description,
+    properties: {
+      place_id: { type: 'string', description: 'Google Place ID' },
+      lat: LAT_SCHEMA,
+      lng: LNG_SCHEMA,
+    },
+    anyOf: [
+      { required: ['place_id'] },
+      { required: ['lat', 'lng'] },
+    ],
+  };
+}
+
+export const getDirectionsTool: ToolDefinition = {
+  name: 'get_directions',
+  title: 'Get Directions',
+  description: 'Get directions and travel time between two locations. Supports driving, walking, transit, and bicycling modes. Use for commute time estimation during daily planning.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      origin: waypointSchema('Starting location. Provide either place_id or lat/lng coordinates.'),
+      destination: waypointSchema('Ending location. Provide either place_id or lat/lng coordinates.'),
+      mode: {
+        type: 'string',
+        description: 'Travel mode (default: driving)',
+        enum: ['driving', 'walking', 'transit', 'bicycling'],
+      },
+      departure_time: {
+        type: 'string',
+        description: 'Departure time for traffic-aware duration. Use "now" for current conditions, a Unix timestamp string, or a local time at the origin like "2025-06-01T08:30" (resolved through the origin\'s time zone). Only applies to driving and transit.',
+        anyOf: [
+          { enum: ['now'], description: '"now"' },
+          { pattern: '^\\d+$', description: 'a Unix timestamp string' },
+          { pattern: LOCAL_TIME_PATTERN, format: 'local-date-time', description: 'a local time like "2025-06-01T08:30"' },
+        ],
+      },
+    },
+    required: ['origin', 'destination'],
+  },
+  outputSchema: resultSchema({
+    mode: { type: 'string' },
+    duration: {
+      type: 'object',
+      properties: {
+        value: { type: 'number', description: 'Seconds' },
+        text: { type: 'string' },
+      },
+    },
+    distance: {
+      type: 'object',
+      properties: {
+        value: { type: 'number', description: 'Meters' },
+        text: NULLABLE_STRING,
+      },
+    },
+    summary: { type: 'string' },
+    departure: {
+      type: 'object',
+      description: 'Present when departure_time was a local time',
+      properties: {
+        local_time: { type: 'string' },
+        time_zone_id: { type: 'string' },
+        timestamp: { type: 'number' },
+      },
+    },
+    steps: { type: 'array', items: { type: 'object' } },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetDirections,
+};
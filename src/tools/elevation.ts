@@ -0,0 +1,82 @@
+/**
+ * Elevation API tool.
+ */
+
+import { GOOGLE_PLACES_API_KEY, ENDPOINTS } from '../config.js';
+import { ToolDefinition, jsonResult, latLngSchema, resultSchema, READ_ONLY_ANNOTATIONS, LAT_LNG_RESULT_SCHEMA } from './common.js';
+import { cachedLookup } from '../utils/cache.js';
+import { upstreamErrorFromResponse, upstreamErrorFromStatus } from '../utils/errors.js';
+import { upstreamFetch } from '../upstream/client.js';
+
+async function handleGetElevation(args: any) {
+  const { locations } = args;
+  console.error(`[DEBUG] Getting elevation for ${locations.length} location(s)`);
+
+  const locationsParam = locations.map((loc: any) => `${loc.lat},${loc.lng}`).join('|');
+  const elevationUrl = `${ENDPOINTS.maps}/elevation/json?locations=${encodeURIComponent(locationsParam)}&key=${GOOGLE_PLACES_API_KEY}`;
+  
+  const { value: data, cache } = await cachedLookup<any>('get_elevation', locationsParam, async () => {
+    const response = await upstreamFetch('elevation', elevationUrl);
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('elevation', response);
+    }
+
+    const data: any = await response.json();
+
+    if (data.status !== 'OK') {
+      throw upstreamErrorFromStatus('elevation', data.status, data.error_message);
+    }
+
+    return data;
+  });
+
+  const results = data.results.map((result: any) => ({
+    elevation: result.elevation,
+    location: {
+      lat: result.location.lat,
+      lng: result.location.lng,
+    },
+  }));
+
+  return jsonResult({
+    success: true,
+    cache,
+    count: results.length,
+    results: results,
+  });
+}
+
+export const getElevationTool: ToolDefinition = {
+  name: 'get_elevation',
+  title: 'Get Elevation',
+  description: 'Get elevation data for one or more locations.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      locations: {
+        type: 'array',
+        description: 'Array of location coordinates [{lat: number, lng: number}]',
+        items: latLngSchema('Location coordinates {lat: number, lng: number}'),
+        minItems: 1,
+        maxItems: 512,
+      },
+    },
+    required: ['locations'],
+  },
+  outputSchema: resultSchema({
+    count: { type: 'number' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          elevation: { type: 'number', description: 'Meters above sea level' },
+          location: LAT_LNG_RESULT_SCHEMA,
+        },
+      },
+    },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetElevation,
+};
@@ -0,0 +1,318 @@
+/**
+ * Geocoding API tools: forward (address -> coordinates) and reverse.
+ */
+
+import { GOOGLE_PLACES_API_KEY, ENDPOINTS } from '../config.js';
+import { ToolDefinition, jsonResult, latLngSchema, resultSchema, READ_ONLY_ANNOTATIONS, LAT_SCHEMA, LNG_SCHEMA, LAT_LNG_RESULT_SCHEMA, NULLABLE_STRING } from './common.js';
+import { cachedLookup } from '../utils/cache.js';
+import { upstreamErrorFromResponse, upstreamErrorFromStatus } from '../utils/errors.js';
+import { upstreamFetch } from '../upstream/client.js';
+
+// How precise a geocode is, most to least
+const LOCATION_TYPES = ['ROOFTOP', 'RANGE_INTERPOLATED', 'GEOMETRIC_CENTER', 'APPROXIMATE'];
+
+const REVERSE_GEOCODE_MAX_RESULTS = 5;
+const GEOCODE_DEFAULT_LIMIT = 3;
+const GEOCODE_MAX_LIMIT = 10;
+
+// geocode_address component filters and their Geocoding API names
+const COMPONENT_FILTERS: Record<string, string> = {
+  country: 'country',
+  postal_code: 'postal_code',
+  locality: 'locality',
+};
+
+/**
+ * Flatten Geocoding address_components into named fields. Missing parts are
+ * null; locality falls back to postal_town / sublocality where countries
+ * (e.g. the UK) use those instead.
+ */
+function parseAddressComponents(components: any[] | undefined): any {
+  const find = (type: string) => (components || []).find((component: any) => component.types?.includes(type));
+  const locality = find('locality') || find('postal_town') || find('sublocality');
+  return {
+    street_number: find('street_number')?.long_name ?? null,
+    route: find('route')?.long_name ?? null,
+    neighborhood: find('neighborhood')?.long_name ?? null,
+    locality: locality?.long_name ?? null,
+    admin_area_level_2: find('administrative_area_level_2')?.long_name ?? null,
+    admin_area_level_1: find('administrative_area_level_1')?.long_name ?? null,
+    admin_area_level_1_code: find('administrative_area_level_1')?.short_name ?? null,
+    country: find('country')?.long_name ?? null,
+    country_code: find('country')?.short_name ?? null,
+    postal_code: find('postal_code')?.long_name ?? null,
+  };
+}
+
+function formatViewport(viewport: any): any {
+  if (!viewport) {
+    return null;
+  }
+  return {
+    northeast: { lat: viewport.northeast.lat, lng: viewport.northeast.lng },
+    southwest: { lat: viewport.southwest.lat, lng: viewport.southwest.lng },
+  };
+}
+
+const ADDRESS_COMPONENTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    street_number: NULLABLE_STRING,
+    route: NULLABLE_STRING,
+    neighborhood: NULLABLE_STRING,
+    locality: NULLABLE_STRING,
+    admin_area_level_2: NULLABLE_STRING,
+    admin_area_level_1: NULLABLE_STRING,
+    admin_area_level_1_code: NULLABLE_STRING,
+    country: NULLABLE_STRING,
+    country_code: NULLABLE_STRING,
+    postal_code: NULLABLE_STRING,
+  },
+};
+
+/**
+ * Coordinates of a place ID, for tools that need a lat/lng but were given a
+ * place. Shares the geocode_address cache.
+ */
+export async function locatePlaceId(placeId: string): Promise<{ lat: number; lng: number }> {
+  const url = `${ENDPOINTS.maps}/geocode/json?place_id=${encodeURIComponent(placeId)}&key=${GOOGLE_PLACES_API_KEY}`;
+  const { value: data } = await cachedLookup<any>('geocode_address', { place_id: placeId }, async () => {
+    const response = await upstreamFetch('geocoding', url);
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('geocoding', response);
+    }
+
+    const data: any = await response.json();
+
+    if (data.status !== 'OK') {
+      throw upstreamErrorFromStatus('geocoding', data.status, data.error_message);
+    }
+
+    return data;
+  });
+
+  return data.results[0].geometry.location;
+}
+
+async function handleGeocodeAddress(args: any) {
+  const { address, components, bounds, region, language, limit = GEOCODE_DEFAULT_LIMIT } = args;
+  console.error(`[DEBUG] Geocoding address: "${address}"`);
+
+  const params = new URLSearchParams({ address, key: GOOGLE_PLACES_API_KEY! });
+  if (components) {
+    const filters = Object.entries(COMPONENT_FILTERS)
+      .filter(([name]) => components[name])
+      .map(([name, apiName]) => `${apiName}:${components[name]}`);
+    if (filters.length > 0) {
+      params.set('components', filters.join('|'));
+    }
+  }
+  if (bounds) {
+    params.set('bounds', `${bounds.southwest.lat},${bounds.southwest.lng}|${bounds.northeast.lat},${bounds.northeast.lng}`);
+  }
+  if (region) {
+    params.set('region', region);
+  }
+  if (language) {
+    params.set('language', language);
+  }
+
+  // limit only trims the response, so it is not part of the cache key
+  const keyParts = { address, components, bounds, region, language };
+  const { value: data, cache } = await cachedLookup<any>('geocode_address', keyParts, async () => {
+    const response = await upstreamFetch('geocoding', `${ENDPOINTS.maps}/geocode/json?${params}`);
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('geocoding', response);
+    }
+
+    const data: any = await response.json();
+
+    if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+      throw upstreamErrorFromStatus('geocoding', data.status, data.error_message);
+    }
+
+    return data;
+  });
+
+  const results = (data.results || []).slice(0, limit).map((r: any) => ({
+    formatted_address: r.formatted_address,
+    lat: r.geometry.location.lat,
+    lng: r.geometry.location.lng,
+    place_id: r.place_id,
+    types: r.types,
+    location_type: r.geometry.location_type,
+    viewport: formatViewport(r.geometry.viewport),
+    partial_match: r.partial_match === true,
+    address_components: parseAddressComponents(r.address_components),
+  }));
+
+  return jsonResult({ success: true, address, cache, count: results.length, results });
+}
+
+async function handleReverseGeocode(args: any) {
+  const { lat, lng, result_types, location_types } = args;
+  console.error(`[DEBUG] Reverse geocoding: ${lat},${lng}`);
+
+  const params = new URLSearchParams({ latlng: `${lat},${lng}`, key: GOOGLE_PLACES_API_KEY! });
+  if (result_types?.length) {
+    params.set('result_type', result_types.join('|'));
+  }
+  if (location_types?.length) {
+    params.set('location_type', location_types.join('|'));
+  }
+
+  const keyParts = { lat, lng, result_types, location_types };
+  const { value: data, cache } = await cachedLookup<any>('reverse_geocode', keyParts, async () => {
+    const response = await upstreamFetch('geocoding', `${ENDPOINTS.maps}/geocode/json?${params}`);
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('geocoding', response);
+    }
+
+    const data: any = await response.json();
+
+    if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+      throw upstreamErrorFromStatus('geocoding', data.status, data.error_message);
+    }
+
+    return data;
+  });
+
+  const results = (data.results || []).slice(0, REVERSE_GEOCODE_MAX_RESULTS).map((r: any) => ({
+    formatted_address: r.formatted_address,
+    lat: r.geometry.location.lat,
+    lng: r.geometry.location.lng,
+    place_id: r.place_id,
+    types: r.types,
+    location_type: r.geometry.location_type,
+    address_components: parseAddressComponents(r.address_components),
+  }));
+
+  return jsonResult({ success: true, location: { lat, lng }, cache, count: results.length, results });
+}
+
+export const geocodeAddressTool: ToolDefinition = {
+  name: 'geocode_address',
+  title: 'Geocode Address',
+  description: 'Convert a human-readable address or place name to lat/lng coordinates. Use before calling get_weather or get_directions when you have an address instead of coordinates.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      address: {
+        type: 'string',
+        description: 'Address or place name to geocode (e.g., "Microsoft India, Hyderabad" or "Eiffel Tower, Paris")',
+        minLength: 1,
+      },
+      components: {
+        type: 'object',
+        description: 'Hard filters: only return results in this country (ISO code, e.g. "FR"), postal code or locality',
+        properties: {
+          country: { type: 'string', minLength: 2 },
+          postal_code: { type: 'string', minLength: 1 },
+          locality: { type: 'string', minLength: 1 },
+        },
+      },
+      bounds: {
+        type: 'object',
+        description: 'Prefer results inside this box (a result viewport can be passed back as-is)',
+        properties: {
+          southwest: latLngSchema('South-west corner'),
+          northeast: latLngSchema('North-east corner'),
+        },
+        required: ['southwest', 'northeast'],
+      },
+      region: {
+        type: 'string',
+        description: 'Prefer results in this region (ccTLD code, e.g. "uk", "fr")',
+        minLength: 2,
+      },
+      language: {
+        type: 'string',
+        description: 'Language for formatted addresses (e.g. "en", "fr")',
+        minLength: 2,
+      },
+      limit: {
+        type: 'integer',
+        description: `Maximum number of results (default: ${GEOCODE_DEFAULT_LIMIT}, max: ${GEOCODE_MAX_LIMIT})`,
+        minimum: 1,
+        maximum: GEOCODE_MAX_LIMIT,
+      },
+    },
+    required: ['address'],
+  },
+  outputSchema: resultSchema({
+    address: { type: 'string' },
+    count: { type: 'number' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          formatted_address: { type: 'string' },
+          lat: { type: 'number' },
+          lng: { type: 'number' },
+          place_id: { type: 'string' },
+          types: { type: 'array', items: { type: 'string' } },
+          location_type: { type: 'string', enum: LOCATION_TYPES, description: 'ROOFTOP is exact; APPROXIMATE is an area' },
+          viewport: {
+            type: ['object', 'null'],
+            properties: { northeast: LAT_LNG_RESULT_SCHEMA, southwest: LAT_LNG_RESULT_SCHEMA },
+          },
+          partial_match: { type: 'boolean', description: 'Google matched only part of the address' },
+          address_components: ADDRESS_COMPONENTS_SCHEMA,
+        },
+      },
+    },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGeocodeAddress,
+};
+
+export const reverseGeocodeTool: ToolDefinition = {
+  name: 'reverse_geocode',
+  title: 'Reverse Geocode',
+  description: 'Turn lat/lng coordinates (e.g. a GPS point) into human-readable addresses with place IDs and parsed address components (locality, admin area, country, postal code). Most specific result first.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      lat: { ...LAT_SCHEMA, description: 'Latitude' },
+      lng: { ...LNG_SCHEMA, description: 'Longitude' },
+      result_types: {
+        type: 'array',
+        description: 'Only return results of these address types (e.g. ["street_address"], ["locality"], ["postal_code"])',
+        items: { type: 'string', minLength: 1 },
+        minItems: 1,
+      },
+      location_types: {
+        type: 'array',
+        description: 'Only return results with this precision: ROOFTOP is exact, APPROXIMATE is an area',
+        items: { type: 'string', enum: LOCATION_TYPES },
+        minItems: 1,
+      },
+    },
+    required: ['lat', 'lng'],
+  },
+  outputSchema: resultSchema({
+    location: LAT_LNG_RESULT_SCHEMA,
+    count: { type: 'number' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          formatted_address: { type: 'string' },
+          lat: { type: 'number' },
+          lng: { type: 'number' },
+          place_id: { type: 'string' },
+          types: { type: 'array', items: { type: 'string' } },
+          location_type: { type: 'string', enum: LOCATION_TYPES },
+          address_components: ADDRESS_COMPONENTS_SCHEMA,
+        },
+      },
+    },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleReverseGeocode,
+};
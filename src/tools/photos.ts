@@ -0,0 +1,162 @@
+/**
+ * Place photo tool: fetches Places API (New) photo media and returns it as
+ * MCP image content, so multimodal clients can see the place.
+ */
+
+import { GOOGLE_PLACES_API_KEY, ENDPOINTS } from '../config.js';
+import { ToolDefinition, ToolResult, jsonResult, resultSchema, READ_ONLY_ANNOTATIONS, NULLABLE_NUMBER } from './common.js';
+import { UpstreamError, upstreamErrorFromResponse } from '../utils/errors.js';
+import { upstreamFetch } from '../upstream/client.js';
+
+// Google serves photos up to 4800 px on either side
+const MAX_PHOTO_DIMENSION_PX = 4800;
+const DEFAULT_MAX_WIDTH_PX = 800;
+
+// Largest photo returned to clients; base64 makes the message about a third bigger
+const MAX_PHOTO_BYTES = parseInt(process.env.PLACE_PHOTO_MAX_BYTES || '', 10) || 4 * 1024 * 1024;
+
+function tooLarge(bytes?: number): UpstreamError {
+  const size = bytes === undefined
+    ? `over the ${MAX_PHOTO_BYTES} byte limit`
+    : `${bytes} bytes, over the ${MAX_PHOTO_BYTES} byte limit`;
+  return new UpstreamError('RESPONSE_TOO_LARGE', 'photos', `Photo is ${size}`);
+}
+
+/**
+ * Read a response body, giving up as soon as it passes MAX_PHOTO_BYTES so a
+ * body without Content-Length cannot fill memory.
+ */
+async function readPhotoBytes(response: Response): Promise<Buffer> {
+  const declaredBytes = parseInt(response.headers.get('Content-Length') || '', 10);
+  if (declaredBytes > MAX_PHOTO_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge(declaredBytes);
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > MAX_PHOTO_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks, total);
+}
+
+async function handleGetPlacePhoto(args: any): Promise<ToolResult> {
+  const { photo_name, max_height_px } = args;
+  const max_width_px = args.max_width_px ?? (max_height_px ? undefined : DEFAULT_MAX_WIDTH_PX);
+  console.error(`[DEBUG] Getting photo ${photo_name} (max ${max_width_px ?? '-'}x${max_height_px ?? '-'} px)`);
+
+  // Ask for the image URL as JSON rather than a redirect, so the API key is
+  // only ever sent to Google's API and not to the image host
+  const params = new URLSearchParams({ skipHttpRedirect: 'true' });
+  if (max_width_px) {
+    params.set('maxWidthPx', String(max_width_px));
+  }
+  if (max_height_px) {
+    params.set('maxHeightPx', String(max_height_px));
+  }
+
+  const media = await upstreamFetch('places', `${ENDPOINTS.places}/${photo_name}/media?${params}`, {
+    method: 'GET',
+    headers: {
+      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
+    },
+  });
+
+  if (!media.ok) {
+    throw await upstreamErrorFromResponse('places', media);
+  }
+
+  const { photoUri }: any = await media.json();
+  if (!photoUri) {
+    throw new UpstreamError('UPSTREAM_ERROR', 'places', 'Google returned no photoUri for this photo');
+  }
+
+  // The image host is not a Places API endpoint, so it has its own breaker
+  const response = await upstreamFetch('photos', photoUri, { method: 'GET' });
+
+  if (!response.ok) {
+    throw await upstreamErrorFromResponse('photos', response);
+  }
+
+  const mimeType = (response.headers.get('Content-Type') || '').split(';')[0].trim();
+  if (!mimeType.startsWith('image/')) {
+    throw new UpstreamError('UPSTREAM_ERROR', 'photos', `Expected an image, got ${mimeType || 'no content type'}`);
+  }
+
+  const bytes = await readPhotoBytes(response);
+
+  const metadata = jsonResult({
+    success: true,
+    photo_name,
+    mime_type: mimeType,
+    bytes: bytes.length,
+    max_width_px: max_width_px ?? null,
+    max_height_px: max_height_px ?? null,
+  });
+
+  return {
+    ...metadata,
+    content: [
+      {
+        type: 'image',
+        data: bytes.toString('base64'),
+        mimeType,
+      },
+      ...metadata.content,
+    ],
+  };
+}
+
+const PHOTO_DIMENSION_SCHEMA = {
+  type: 'integer',
+  minimum: 1,
+  maximum: MAX_PHOTO_DIMENSION_PX,
+};
+
+export const getPlacePhotoTool: ToolDefinition = {
+  name: 'get_place_photo',
+  title: 'Get Place Photo',
+  description: 'Fetch a place photo as an image. Take photo_name from get_place_details with include_photos: true, and show the photo\'s author attributions alongside it.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      photo_name: {
+        type: 'string',
+        description: 'Photo resource name, e.g. "places/ChIJ.../photos/AUc7..."',
+        pattern: '^places/[^/]+/photos/[^/]+$',
+      },
+      max_width_px: {
+        ...PHOTO_DIMENSION_SCHEMA,
+        description: `Maximum width in pixels (1-${MAX_PHOTO_DIMENSION_PX}; default: ${DEFAULT_MAX_WIDTH_PX} when no height is given)`,
+      },
+      max_height_px: {
+        ...PHOTO_DIMENSION_SCHEMA,
+        description: `Maximum height in pixels (1-${MAX_PHOTO_DIMENSION_PX})`,
+      },
+    },
+    required: ['photo_name'],
+  },
+  outputSchema: resultSchema({
+    photo_name: { type: 'string' },
+    mime_type: { type: 'string' },
+    bytes: { type: 'number' },
+    max_width_px: NULLABLE_NUMBER,
+    max_height_px: NULLABLE_NUMBER,
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetPlacePhoto,
+};
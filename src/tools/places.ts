@@ -0,0 +1,909 @@
+/**
+ * Places API (New) tools: text search, nearby search, autocomplete and place details.
+ */
+
+import { GOOGLE_PLACES_API_KEY, ENDPOINTS } from '../config.js';
+import { ToolDefinition, jsonResult, latLngSchema, resultSchema, READ_ONLY_ANNOTATIONS, LAT_LNG_RESULT_SCHEMA, LAT_SCHEMA, LNG_SCHEMA, NULLABLE_STRING, NULLABLE_NUMBER, NULLABLE_BOOLEAN } from './common.js';
+import { cachedLookup } from '../utils/cache.js';
+import { UpstreamError, upstreamErrorFromResponse } from '../utils/errors.js';
+import { issuePageToken, readPageToken, PageTokenError, PageState, PAGE_TOKEN_TTL_MS } from '../utils/page-tokens.js';
+import { upstreamFetch } from '../upstream/client.js';
+import { distanceMeters, boundingBox } from '../utils/geo.js';
+import { autocompleteSessions } from '../utils/autocomplete-sessions.js';
+
+// Normalized search result, shared by the search tools
+const PLACE_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    address: { type: 'string' },
+    place_id: { type: 'string' },
+    resource_name: { type: 'string' },
+    location: LAT_LNG_RESULT_SCHEMA,
+    types: { type: 'array', items: { type: 'string' } },
+    rating: { type: 'number' },
+    user_ratings_total: { type: 'number' },
+    business_status: { type: 'string' },
+  },
+};
+
+// "Open now" goes stale quickly, so lookups that depend on it are cached briefly
+const OPEN_NOW_MAX_AGE_MS = 2 * 60 * 1000;
+
+const SEARCH_FIELD_MASK = [
+  'name', 'displayName', 'formattedAddress', 'id', 'location', 'types', 'rating', 'userRatingCount', 'businessStatus',
+].map((field) => `places.${field}`).join(',');
+
+/**
+ * Map a Places API place onto the normalized search result shape.
+ */
+function normalizePlace(place: any): any {
+  return {
+    name: place.displayName?.text || 'Unknown',
+    address: place.formattedAddress || 'No address',
+    place_id: place.id,
+    resource_name: place.name || `places/${place.id}`,
+    location: {
+      lat: place.location?.latitude,
+      lng: place.location?.longitude,
+    },
+    types: place.types || [],
+    rating: place.rating,
+    user_ratings_total: place.userRatingCount,
+    business_status: place.businessStatus,
+  };
+}
+
+// Text Search returns at most 20 results per page and 60 in total
+const MAX_PAGE_SIZE = 20;
+
+// Price levels Text Search can filter on (free places cannot be selected)
+const SEARCH_PRICE_LEVELS = ['inexpensive', 'moderate', 'expensive', 'very_expensive'];
+
+function toLatLngLiteral(point: { lat: number; lng: number }): any {
+  return { latitude: point.lat, longitude: point.lng };
+}
+
+/**
+ * Text Search only restricts to rectangles, so a circle is sent as its
+ * bounding box and results outside the circle are dropped afterwards.
+ */
+function searchLocationRestriction(restrictTo: any): any {
+  const rectangle = restrictTo.rectangle || boundingBox(restrictTo.circle.center, restrictTo.circle.radius);
+  return {
+    rectangle: {
+      low: toLatLngLiteral(rectangle.low),
+      high: toLatLngLiteral(rectangle.high),
+    },
+  };
+}
+
+function isInsideRestriction(restrictTo: any, result: any): boolean {
+  if (!restrictTo?.circle || restrictTo.rectangle || typeof result.location.lat !== 'number') {
+    return true;
+  }
+  return distanceMeters(restrictTo.circle.center, result.location) <= restrictTo.circle.radius;
+}
+
+/**
+ * Resolve a search_places page_token for this request, turning token
+ * problems into tool errors the model can act on.
+ */
+function searchPageState(requestBody: any, pageToken: string | undefined): PageState | undefined {
+  if (!pageToken) {
+    return undefined;
+  }
+  try {
+    return readPageToken('search_places', requestBody, pageToken);
+  } catch (error) {
+    if (error instanceof PageTokenError) {
+      throw new UpstreamError(error.reason === 'expired' ? 'PAGE_TOKEN_EXPIRED' : 'INVALID_PAGE_TOKEN', 'places', error.message);
+    }
+    throw error;
+  }
+}
+
+async function handleSearchPlaces(args: any) {
+  const {
+    query,
+    location,
+    radius = 5000,
+    max_results = 10,
+    page_token,
+    open_now,
+    min_rating,
+    price_levels,
+    included_type,
+    strict_type_filtering,
+    restrict_to,
+  } = args;
+  console.error(`[DEBUG] Searching places for: "${query}"${page_token ? ' (next page)' : ''}`);
+  
+  const requestBody: any = {
+    textQuery: query,
+    pageSize: Math.min(max_results, MAX_PAGE_SIZE),
+  };
+
+  // Filters actually sent to Google, echoed back in the response
+  const filters: any = {};
+  if (open_now !== undefined) {
+    requestBody.openNow = filters.open_now = open_now;
+  }
+  if (min_rating !== undefined) {
+    requestBody.minRating = filters.min_rating = min_rating;
+  }
+  if (price_levels?.length) {
+    filters.price_levels = price_levels;
+    requestBody.priceLevels = price_levels.map((level: string) => `PRICE_LEVEL_${level.toUpperCase()}`);
+  }
+  if (included_type) {
+    requestBody.includedType = filters.included_type = included_type;
+    if (strict_type_filtering !== undefined) {
+      requestBody.strictTypeFiltering = filters.strict_type_filtering = strict_type_filtering;
+    }
+  }
+
+  // Google accepts a bias or a restriction, not both; the restriction wins
+  if (restrict_to) {
+    requestBody.locationRestriction = searchLocationRestriction(restrict_to);
+    filters.restrict_to = restrict_to;
+  } else if (location?.lat && location?.lng) {
+    requestBody.locationBias = {
+      circle: {
+        center: {
+          latitude: location.lat,
+          longitude: location.lng,
+        },
+        radius: Math.min(radius, 50000),
+      },
+    };
+  }
+
+  const pageState = searchPageState(requestBody, page_token);
+  const pageRequest = pageState ? { ...requestBody, pageToken: pageState.upstreamToken } : requestBody;
+
+  // A page with a next page is only kept while Google's page token is valid,
+  // and remembers when it was fetched so the wrapped token expires with it
+  const { value: fetched, cache } = await cachedLookup<any>('search_places', pageRequest, async () => {
+    const response = await upstreamFetch('places', `${ENDPOINTS.places}/places:searchText`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
+        'X-Goog-FieldMask': `${SEARCH_FIELD_MASK},nextPageToken`,
+      },
+      body: JSON.stringify(pageRequest),
+    });
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('places', response);
+    }
+
+    return { data: await response.json(), fetchedAt: Date.now() };
+  }, {
+    maxTtlMs: (page) => Math.min(
+      page.data.nextPageToken ? PAGE_TOKEN_TTL_MS : Infinity,
+      open_now ? OPEN_NOW_MAX_AGE_MS : Infinity,
+    ),
+  });
+  const data = fetched.data;
+  
+  const results = (data.places || [])
+    .slice(0, requestBody.pageSize)
+    .map(normalizePlace)
+    .filter((result: any) => isInsideRestriction(restrict_to, result));
+  const page = pageState?.page ?? 1;
+  const nextPageToken = data.nextPageToken
+    ? issuePageToken('search_places', requestBody, { upstreamToken: data.nextPageToken, page: page + 1 }, fetched.fetchedAt)
+    : null;
+
+  return jsonResult({
+    success: true,
+    query: query,
+    cache,
+    filters,
+    page,
+    count: results.length,
+    results: results,
+    next_page_token: nextPageToken,
+  });
+}
+
+async function handleSearchNearby(args: any) {
+  const {
+    location,
+    radius,
+    included_types,
+    excluded_types,
+    max_results = 10,
+    rank_by = 'popularity',
+  } = args;
+  console.error(`[DEBUG] Searching nearby (${location.lat}, ${location.lng}) within ${radius} m`);
+
+  const requestBody: any = {
+    locationRestriction: {
+      circle: {
+        center: {
+          latitude: location.lat,
+          longitude: location.lng,
+        },
+        radius,
+      },
+    },
+    maxResultCount: max_results,
+    rankPreference: rank_by === 'distance' ? 'DISTANCE' : 'POPULARITY',
+  };
+  if (included_types?.length) {
+    requestBody.includedTypes = included_types;
+  }
+  if (excluded_types?.length) {
+    requestBody.excludedTypes = excluded_types;
+  }
+
+  const { value: data, cache } = await cachedLookup<any>('search_nearby', requestBody, async () => {
+    const response = await upstreamFetch('places', `${ENDPOINTS.places}/places:searchNearby`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
+        'X-Goog-FieldMask': SEARCH_FIELD_MASK,
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('places', response);
+    }
+
+    return response.json();
+  });
+
+  const results = (data.places || []).map((place: any) => {
+    const result = normalizePlace(place);
+    const hasLocation = typeof result.location.lat === 'number' && typeof result.location.lng === 'number';
+    return {
+      ...result,
+      distance_meters: hasLocation ? Math.round(distanceMeters(location, result.location)) : null,
+    };
+  });
+
+  return jsonResult({
+    success: true,
+    center: location,
+    radius,
+    rank_by,
+    cache,
+    count: results.length,
+    results,
+  });
+}
+
+async function handleAutocompletePlaces(args: any) {
+  const {
+    input,
+    session_token,
+    location,
+    location_mode = 'bias',
+    included_primary_types,
+    region_code,
+    language_code,
+  } = args;
+  console.error(`[DEBUG] Autocomplete for: "${input}"`);
+
+  let session = session_token ? autocompleteSessions.touch(session_token) : undefined;
+  const sessionStatus = session ? 'continued' : session_token ? 'restarted' : 'started';
+  if (!session) {
+    session = autocompleteSessions.start();
+  }
+  session.requests++;
+
+  const requestBody: any = {
+    input,
+    sessionToken: session.token,
+  };
+  if (location) {
+    const circle = {
+      circle: {
+        center: {
+          latitude: location.lat,
+          longitude: location.lng,
+        },
+        radius: location.radius ?? 5000,
+      },
+    };
+    requestBody[location_mode === 'restrict' ? 'locationRestriction' : 'locationBias'] = circle;
+    requestBody.origin = circle.circle.center;
+  }
+  if (included_primary_types?.length) {
+    requestBody.includedPrimaryTypes = included_primary_types;
+  }
+  if (region_code) {
+    requestBody.regionCode = region_code;
+  }
+  if (language_code) {
+    requestBody.languageCode = language_code;
+  }
+
+  const response = await upstreamFetch('places', `${ENDPOINTS.places}/places:autocomplete`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  if (!response.ok) {
+    throw await upstreamErrorFromResponse('places', response);
+  }
+
+  const data: any = await response.json();
+  const suggestions = (data.suggestions || [])
+    .filter((suggestion: any) => suggestion.placePrediction)
+    .map(({ placePrediction: prediction }: any) => ({
+      place_id: prediction.placeId,
+      resource_name: prediction.place || `places/${prediction.placeId}`,
+      text: prediction.text?.text,
+      main_text: prediction.structuredFormat?.mainText?.text ?? null,
+      secondary_text: prediction.structuredFormat?.secondaryText?.text ?? null,
+      types: prediction.types || [],
+      distance_meters: prediction.distanceMeters ?? null,
+    }));
+
+  return jsonResult({
+    success: true,
+    input,
+    session_token: session.token,
+    session_status: sessionStatus,
+    count: suggestions.length,
+    suggestions,
+  });
+}
+
+// Place Details field masks per preset; "full" is the union of the others
+const DETAIL_FIELD_PRESETS: Record<string, string[]> = {
+  basic: [
+    'id', 'name', 'displayName', 'formattedAddress', 'location', 'types', 'primaryType',
+    'businessStatus', 'googleMapsUri', 'accessibilityOptions',
+  ],
+  contact: [
+    'nationalPhoneNumber', 'internationalPhoneNumber', 'websiteUri',
+    'regularOpeningHours', 'currentOpeningHours',
+  ],
+  atmosphere: ['priceLevel', 'rating', 'userRatingCount', 'editorialSummary'],
+};
+DETAIL_FIELD_PRESETS.full = [
+  ...DETAIL_FIELD_PRESETS.basic,
+  ...DETAIL_FIELD_PRESETS.contact,
+  ...DETAIL_FIELD_PRESETS.atmosphere,
+];
+
+const DETAIL_FIELD_PRESET_NAMES = ['basic', 'contact', 'atmosphere', 'full'];
+
+/**
+ * Field mask for a preset. Every preset includes the basic fields so the
+ * result can always name the place it describes.
+ */
+function detailsFieldMask(preset: string, includePhotos: boolean): string {
+  const fields = new Set([...DETAIL_FIELD_PRESETS.basic, ...DETAIL_FIELD_PRESETS[preset]]);
+  if (includePhotos) {
+    fields.add('photos');
+  }
+  return [...fields].join(',');
+}
+
+/**
+ * Photo references for get_place_photo. Google requires the author
+ * attributions to be shown wherever a photo is displayed.
+ */
+function normalizePhotos(photos: any[] | undefined): any[] {
+  return (photos || []).map((photo: any) => ({
+    photo_name: photo.name,
+    width_px: photo.widthPx,
+    height_px: photo.heightPx,
+    attributions: (photo.authorAttributions || []).map((author: any) => ({
+      name: author.displayName,
+      uri: author.uri ?? null,
+      photo_uri: author.photoUri ?? null,
+    })),
+  }));
+}
+
+/**
+ * PRICE_LEVEL_MODERATE -> "moderate"; PRICE_LEVEL_UNSPECIFIED -> null.
+ */
+function normalizePriceLevel(priceLevel: string | undefined): string | null {
+  if (!priceLevel || priceLevel === 'PRICE_LEVEL_UNSPECIFIED') {
+    return null;
+  }
+  return priceLevel.replace(/^PRICE_LEVEL_/, '').toLowerCase();
+}
+
+function formatTimePoint(point: any): any {
+  if (!point) {
+    return null;
+  }
+  const hour = String(point.hour ?? 0).padStart(2, '0');
+  const minute = String(point.minute ?? 0).padStart(2, '0');
+  return { day: point.day, time: `${hour}:${minute}` };
+}
+
+function normalizeOpeningHours(hours: any): any {
+  if (!hours) {
+    return null;
+  }
+  return {
+    open_now: hours.openNow ?? null,
+    weekday_descriptions: hours.weekdayDescriptions || [],
+    periods: (hours.periods || []).map((period: any) => ({
+      open: formatTimePoint(period.open),
+      close: formatTimePoint(period.close),
+    })),
+  };
+}
+
+function normalizeAccessibility(options: any): any {
+  if (!options) {
+    return null;
+  }
+  return {
+    wheelchair_accessible_entrance: options.wheelchairAccessibleEntrance ?? null,
+    wheelchair_accessible_parking: options.wheelchairAccessibleParking ?? null,
+    wheelchair_accessible_restroom: options.wheelchairAccessibleRestroom ?? null,
+    wheelchair_accessible_seating: options.wheelchairAccessibleSeating ?? null,
+  };
+}
+
+/**
+ * Map a Place Details payload onto a stable shape: every key is always
+ * present, and fields outside the requested preset or unknown to Google are null.
+ */
+function normalizePlaceDetails(place: any): any {
+  return {
+    name: place.displayName?.text || 'Unknown',
+    address: place.formattedAddress || 'No address',
+    place_id: place.id,
+    resource_name: place.name || `places/${place.id}`,
+    location: {
+      lat: place.location?.latitude,
+      lng: place.location?.longitude,
+    },
+    types: place.types || [],
+    primary_type: place.primaryType ?? null,
+    business_status: place.businessStatus ?? null,
+    google_maps_uri: place.googleMapsUri ?? null,
+    accessibility: normalizeAccessibility(place.accessibilityOptions),
+    phone: {
+      national: place.nationalPhoneNumber ?? null,
+      international: place.internationalPhoneNumber ?? null,
+    },
+    website: place.websiteUri ?? null,
+    opening_hours: normalizeOpeningHours(place.regularOpeningHours),
+    current_opening_hours: normalizeOpeningHours(place.currentOpeningHours),
+    price_level: normalizePriceLevel(place.priceLevel),
+    rating: place.rating ?? null,
+    user_ratings_total: place.userRatingCount ?? null,
+    editorial_summary: place.editorialSummary?.text ?? null,
+    photos: place.photos ? normalizePhotos(place.photos) : null,
+  };
+}
+
+async function handleGetPlaceDetails(args: any) {
+  const { place_id, fields = 'basic', session_token, include_photos = false } = args;
+  console.error(`[DEBUG] Getting ${fields} details for place_id: ${place_id}`);
+
+  const placeId = place_id.startsWith('places/') ? place_id.substring(7) : place_id;
+  // A live autocomplete session is closed by this call once it succeeds, so a
+  // failed call can be retried within the session; unknown tokens are not sent
+  const session = session_token ? autocompleteSessions.touch(session_token) : undefined;
+  const placeUrl = `${ENDPOINTS.places}/places/${encodeURIComponent(placeId)}`;
+  const fullUrl = session ? `${placeUrl}?sessionToken=${encodeURIComponent(session.token)}` : placeUrl;
+
+  const fetchDetails = async () => {
+    const response = await upstreamFetch('places', fullUrl, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
+        'X-Goog-FieldMask': detailsFieldMask(fields, include_photos),
+      },
+    });
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('places', response);
+    }
+
+    return response.json();
+  };
+
+  // The session only counts as closed if Google sees the call, so skip the cache
+  const { value: place, cache } = session
+    ? { value: await fetchDetails(), cache: undefined }
+    : await cachedLookup<any>('get_place_details', { placeId, fields, include_photos }, fetchDetails, {
+      maxTtlMs: (data) => data.currentOpeningHours ? OPEN_NOW_MAX_AGE_MS : Infinity,
+    });
+  if (session) {
+    autocompleteSessions.close(session.token);
+  }
+
+  return jsonResult({
+    success: true,
+    fields,
+    cache,
+    ...(session_token && {
+      autocomplete_session: session
+        ? { token: session.token, status: 'closed', autocomplete_requests: session.requests }
+        : { token: session_token, status: 'unknown' },
+    }),
+    details: normalizePlaceDetails(place),
+  });
+}
+
+const TIME_POINT_SCHEMA = {
+  type: ['object', 'null'],
+  properties: {
+    day: { type: 'number', description: '0 = Sunday' },
+    time: { type: 'string', description: 'HH:MM, local time' },
+  },
+};
+
+const OPENING_HOURS_SCHEMA = {
+  type: ['object', 'null'],
+  properties: {
+    open_now: NULLABLE_BOOLEAN,
+    weekday_descriptions: { type: 'array', items: { type: 'string' } },
+    periods: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { open: TIME_POINT_SCHEMA, close: TIME_POINT_SCHEMA },
+      },
+    },
+  },
+};
+
+export const searchPlacesTool: ToolDefinition = {
+  name: 'search_places',
+  title: 'Search Places',
+  description: 'Search for places using text query to get suggestions with Google Place IDs.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Search query (e.g., "Starbucks near Seattle")',
+        minLength: 1,
+      },
+      location: latLngSchema('Optional location bias {lat: number, lng: number}; ignored when restrict_to is set'),
+      radius: {
+        type: 'number',
+        description: 'Search radius in meters (default: 5000, max: 50000)',
+        minimum: 1,
+        maximum: 50000,
+      },
+      max_results: {
+        type: 'integer',
+        description: 'Results per page (default: 10, max: 20). Google returns at most 60 results across all pages.',
+        minimum: 1,
+        maximum: MAX_PAGE_SIZE,
+      },
+      page_token: {
+        type: 'string',
+        description: 'next_page_token from the previous page. Repeat the other arguments unchanged; tokens expire after a few minutes.',
+        minLength: 1,
+      },
+      open_now: {
+        type: 'boolean',
+        description: 'Only return places that are open now',
+      },
+      min_rating: {
+        type: 'number',
+        description: 'Minimum average rating, 0-5 (Google rounds up to the nearest 0.5)',
+        minimum: 0,
+        maximum: 5,
+      },
+      price_levels: {
+        type: 'array',
+        description: 'Only return places at these price levels',
+        items: { type: 'string', enum: SEARCH_PRICE_LEVELS },
+        minItems: 1,
+      },
+      included_type: {
+        type: 'string',
+        description: 'Place type to prefer, e.g. "restaurant"',
+        minLength: 1,
+      },
+      strict_type_filtering: {
+        type: 'boolean',
+        description: 'With included_type, only return places of exactly that type',
+      },
+      restrict_to: {
+        type: 'object',
+        description: 'Hard area limit: {rectangle: {low, high}} (south-west and north-east corners) or {circle: {center, radius}}',
+        properties: {
+          rectangle: {
+            type: 'object',
+            properties: {
+              low: latLngSchema('South-west corner'),
+              high: latLngSchema('North-east corner'),
+            },
+            required: ['low', 'high'],
+          },
+          circle: {
+            type: 'object',
+            properties: {
+              center: latLngSchema('Circle center'),
+              radius: { type: 'number', description: 'Radius in meters (max: 50000)', minimum: 1, maximum: 50000 },
+            },
+            required: ['center', 'radius'],
+          },
+        },
+        anyOf: [
+          { required: ['rectangle'] },
+          { required: ['circle'] },
+        ],
+      },
+    },
+    required: ['query'],
+  },
+  outputSchema: resultSchema({
+    query: { type: 'string' },
+    filters: {
+      type: 'object',
+      description: 'Filters applied to this search',
+      properties: {
+        open_now: { type: 'boolean' },
+        min_rating: { type: 'number' },
+        price_levels: { type: 'array', items: { type: 'string' } },
+        included_type: { type: 'string' },
+        strict_type_filtering: { type: 'boolean' },
+        restrict_to: { type: 'object' },
+      },
+    },
+    page: { type: 'number' },
+    count: { type: 'number' },
+    results: { type: 'array', items: PLACE_RESULT_SCHEMA },
+    next_page_token: { ...NULLABLE_STRING, description: 'Pass as page_token for the next page; null on the last page' },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleSearchPlaces,
+};
+
+const PLACE_TYPES_SCHEMA = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  maxItems: 50,
+};
+
+export const searchNearbyTool: ToolDefinition = {
+  name: 'search_nearby',
+  title: 'Search Nearby Places',
+  description: 'Find places of given types within a radius of a point (e.g. cafes within 800 m of a hotel). Results include the straight-line distance from the center.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      location: latLngSchema('Center of the search {lat: number, lng: number}'),
+      radius: {
+        type: 'number',
+        description: 'Search radius in meters (max: 50000)',
+        minimum: 1,
+        maximum: 50000,
+      },
+      included_types: {
+        ...PLACE_TYPES_SCHEMA,
+        description: 'Place types to include (e.g. ["cafe", "bakery"]). See Google\'s Places API (New) type table.',
+      },
+      excluded_types: {
+        ...PLACE_TYPES_SCHEMA,
+        description: 'Place types to exclude',
+      },
+      max_results: {
+        type: 'integer',
+        description: 'Maximum number of results (default: 10, max: 20)',
+        minimum: 1,
+        maximum: 20,
+      },
+      rank_by: {
+        type: 'string',
+        description: 'Order results by popularity (default) or by distance from the center',
+        enum: ['popularity', 'distance'],
+      },
+    },
+    required: ['location', 'radius'],
+  },
+  outputSchema: resultSchema({
+    center: LAT_LNG_RESULT_SCHEMA,
+    radius: { type: 'number' },
+    rank_by: { type: 'string', enum: ['popularity', 'distance'] },
+    count: { type: 'number' },
+    results: {
+      type: 'array',
+      items: {
+        ...PLACE_RESULT_SCHEMA,
+        properties: {
+          ...PLACE_RESULT_SCHEMA.properties,
+          distance_meters: { ...NULLABLE_NUMBER, description: 'Straight-line distance from the center' },
+        },
+      },
+    },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleSearchNearby,
+};
+
+export const autocompletePlacesTool: ToolDefinition = {
+  name: 'autocomplete_places',
+  title: 'Autocomplete Places',
+  description: 'Type-ahead place suggestions for partial input. Cheaper than search_places for every keystroke: pass the returned session_token back on each call, then to get_place_details for the chosen suggestion so Google bills the whole exchange as one session.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      input: {
+        type: 'string',
+        description: 'Text typed so far (e.g., "pike pl")',
+        minLength: 1,
+      },
+      session_token: {
+        type: 'string',
+        description: 'session_token from the previous autocomplete_places call. Omit on the first keystroke; a new session is started.',
+        minLength: 1,
+      },
+      location: {
+        type: 'object',
+        description: 'Circle to bias or restrict suggestions to {lat, lng, radius?}',
+        properties: {
+          lat: LAT_SCHEMA,
+          lng: LNG_SCHEMA,
+          radius: {
+            type: 'number',
+            description: 'Radius in meters (default: 5000, max: 50000)',
+            minimum: 1,
+            maximum: 50000,
+          },
+        },
+        required: ['lat', 'lng'],
+      },
+      location_mode: {
+        type: 'string',
+        description: 'bias (default) prefers suggestions in the circle; restrict only returns suggestions inside it',
+        enum: ['bias', 'restrict'],
+      },
+      included_primary_types: {
+        type: 'array',
+        description: 'Up to 5 primary place types (e.g. ["restaurant"]) or type collections such as "(regions)"',
+        items: { type: 'string', minLength: 1 },
+        maxItems: 5,
+      },
+      region_code: {
+        type: 'string',
+        description: 'CLDR region code used to format and bias suggestions (e.g. "us", "fr")',
+        minLength: 2,
+      },
+      language_code: {
+        type: 'string',
+        description: 'Language for suggestion text (e.g. "en", "fr")',
+        minLength: 2,
+      },
+    },
+    required: ['input'],
+  },
+  outputSchema: resultSchema({
+    input: { type: 'string' },
+    session_token: { type: 'string' },
+    session_status: { type: 'string', enum: ['started', 'continued', 'restarted'] },
+    count: { type: 'number' },
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          place_id: { type: 'string' },
+          resource_name: { type: 'string' },
+          text: { type: 'string' },
+          main_text: NULLABLE_STRING,
+          secondary_text: NULLABLE_STRING,
+          types: { type: 'array', items: { type: 'string' } },
+          distance_meters: NULLABLE_NUMBER,
+        },
+      },
+    },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleAutocompletePlaces,
+};
+
+export const getPlaceDetailsTool: ToolDefinition = {
+  name: 'get_place_details',
+  title: 'Get Place Details',
+  description: 'Get detailed information about a specific place using its Google Place ID: address, location, phone, website, opening hours, price level, rating, editorial summary and accessibility. Only the basic fields are fetched unless fields asks for contact, atmosphere or full.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      place_id: {
+        type: 'string',
+        description: 'Google Place ID from search results',
+        minLength: 1,
+      },
+      fields: {
+        type: 'string',
+        description: 'Which fields to fetch (default: basic). basic: name, address, location, types, status, Maps link, accessibility. contact: adds phone, website, opening hours. atmosphere: adds price level, rating, editorial summary. full: everything.',
+        enum: DETAIL_FIELD_PRESET_NAMES,
+      },
+      session_token: {
+        type: 'string',
+        description: 'session_token from autocomplete_places, when place_id came from a suggestion. Closes that autocomplete session.',
+        minLength: 1,
+      },
+      include_photos: {
+        type: 'boolean',
+        description: 'Also list up to 10 photo references (photo_name) with author attributions, for get_place_photo (default: false)',
+      },
+    },
+    required: ['place_id'],
+  },
+  outputSchema: resultSchema({
+    fields: { type: 'string', enum: DETAIL_FIELD_PRESET_NAMES },
+    autocomplete_session: {
+      type: 'object',
+      properties: {
+        token: { type: 'string' },
+        status: { type: 'string', enum: ['closed', 'unknown'] },
+        autocomplete_requests: { type: 'number' },
+      },
+    },
+    details: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        address: { type: 'string' },
+        place_id: { type: 'string' },
+        resource_name: { type: 'string' },
+        location: LAT_LNG_RESULT_SCHEMA,
+        types: { type: 'array', items: { type: 'string' } },
+        primary_type: NULLABLE_STRING,
+        business_status: NULLABLE_STRING,
+        google_maps_uri: NULLABLE_STRING,
+        accessibility: {
+          type: ['object', 'null'],
+          properties: {
+            wheelchair_accessible_entrance: NULLABLE_BOOLEAN,
+            wheelchair_accessible_parking: NULLABLE_BOOLEAN,
+            wheelchair_accessible_restroom: NULLABLE_BOOLEAN,
+            wheelchair_accessible_seating: NULLABLE_BOOLEAN,
+          },
+        },
+        phone: {
+          type: 'object',
+          properties: { national: NULLABLE_STRING, international: NULLABLE_STRING },
+        },
+        website: NULLABLE_STRING,
+        opening_hours: OPENING_HOURS_SCHEMA,
+        current_opening_hours: OPENING_HOURS_SCHEMA,
+        price_level: { type: ['string', 'null'], enum: ['free', 'inexpensive', 'moderate', 'expensive', 'very_expensive', null] },
+        rating: NULLABLE_NUMBER,
+        user_ratings_total: NULLABLE_NUMBER,
+        editorial_summary: NULLABLE_STRING,
+        photos: {
+          type: ['array', 'null'],
+          items: {
+            type: 'object',
+            properties: {
+              photo_name: { type: 'string' },
+              width_px: { type: 'number' },
+              height_px: { type: 'number' },
+              attributions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { name: { type: 'string' }, uri: NULLABLE_STRING, photo_uri: NULLABLE_STRING },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetPlaceDetails,
+};
@@ -0,0 +1,112 @@
+/**
+ * Tool registry shared by the stdio and Streamable HTTP transports.
+ *
+ * Each tool is declared once (name, schema, handler) in its own module and
+ * listed here; transports only ever list and dispatch through this module.
+ */
+
+import { ToolDefinition, ToolResult, ToolContext, NOOP_TOOL_CONTEXT, upstreamErrorResult } from './common.js';
+import { UpstreamError } from '../utils/errors.js';
+import { validateArguments, ValidationIssue } from '../utils/validation.js';
+import { LATEST_PROTOCOL_VERSION, protocolFeatures } from '../utils/protocol.js';
+import { searchPlacesTool, searchNearbyTool, autocompletePlacesTool, getPlaceDetailsTool } from './places.js';
+import { getPlacePhotoTool } from './photos.js';
+import { getWeatherTool, getWeatherForecastTool, getWeatherHistoryTool } from './weather.js';
+import { getElevationTool } from './elevation.js';
+import { geocodeAddressTool, reverseGeocodeTool } from './geocoding.js';
+import { getDirectionsTool } from './directions.js';
+import { getTimezoneTool } from './timezone.js';
+import { getAirQualityTool } from './air-quality.js';
+
+const TOOLS: ToolDefinition[] = [
+  searchPlacesTool,
+  searchNearbyTool,
+  autocompletePlacesTool,
+  getPlaceDetailsTool,
+  getPlacePhotoTool,
+  getWeatherTool,
+  getWeatherForecastTool,
+  getWeatherHistoryTool,
+  getAirQualityTool,
+  getElevationTool,
+  geocodeAddressTool,
+  reverseGeocodeTool,
+  getDirectionsTool,
+  getTimezoneTool,
+];
+
+const toolsByName = new Map(TOOLS.map((tool) => [tool.name, tool]));
+
+/**
+ * Tool metadata for tools/list (handlers stripped), limited to the fields the
+ * client's protocol version understands.
+ */
+export function listTools(protocolVersion: string = LATEST_PROTOCOL_VERSION): any[] {
+  const features = protocolFeatures(protocolVersion);
+  return TOOLS.map((tool) => ({
+    name: tool.name,
+    ...(features.toolTitles && { title: tool.title }),
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    ...(features.outputSchema && { outputSchema: tool.outputSchema }),
+    ...(features.toolAnnotations && tool.annotations && { annotations: tool.annotations }),
+  }));
+}
+
+/**
+ * Drop result fields the client's protocol version does not understand.
+ */
+function presentResult(result: ToolResult, protocolVersion: string): ToolResult {
+  if (protocolFeatures(protocolVersion).structuredContent || !('structuredContent' in result)) {
+    return result;
+  }
+  const { structuredContent, ...rest } = result;
+  return rest;
+}
+
+/**
+ * Look up a tool by name.
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return toolsByName.get(name);
+}
+
+/**
+ * Check arguments against the tool's inputSchema before any upstream call.
+ */
+export function validateToolArguments(name: string, args: any): ValidationIssue[] {
+  const tool = toolsByName.get(name);
+  return tool ? validateArguments(tool.inputSchema, args || {}) : [];
+}
+
+/**
+ * Invoke a registered tool. Callers check getTool() first to report unknown tools.
+ * Upstream failures come back as isError results; anything else is rethrown.
+ */
+export async function callTool(
+  name: string,
+  args: any,
+  context: ToolContext = NOOP_TOOL_CONTEXT,
+  protocolVersion: string = LATEST_PROTOCOL_VERSION,
+): Promise<ToolResult> {
+  const tool = toolsByName.get(name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  console.error(`[DEBUG] Calling tool: ${name}`);
+  context.log('debug', { message: `Calling tool ${name}` });
+  context.progress(0, 1, `Calling ${name}`);
+  try {
+    const result = await tool.handler(args || {}, context);
+    context.progress(1, 1, `${name} completed`);
+    return presentResult(result, protocolVersion);
+  } catch (error) {
+    if (error instanceof UpstreamError) {
+      console.error(`[DEBUG] ${name} failed upstream: ${error.code} ${error.message}`);
+      context.log('warning', { message: `${name} failed upstream`, error: error.toJSON() });
+      context.progress(1, 1, `${name} failed`);
+      return presentResult(upstreamErrorResult(error), protocolVersion);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Time Zone API tool, plus helpers other tools use to turn local wall-clock
+ * times into Unix timestamps for a location.
+ */
+
+import { GOOGLE_PLACES_API_KEY, ENDPOINTS } from '../config.js';
+import { ToolDefinition, jsonResult, latLngSchema, resultSchema, READ_ONLY_ANNOTATIONS, LAT_LNG_RESULT_SCHEMA } from './common.js';
+import { cachedLookup } from '../utils/cache.js';
+import { upstreamErrorFromResponse, upstreamErrorFromStatus } from '../utils/errors.js';
+import { upstreamFetch } from '../upstream/client.js';
+
+export interface TimeZoneInfo {
+  time_zone_id: string;
+  time_zone_name: string;
+  raw_offset_seconds: number;
+  dst_offset_seconds: number;
+  utc_offset_seconds: number;
+}
+
+// Local wall-clock time without a UTC offset, e.g. "2025-06-01T08:30". Schemas
+// pair it with format: 'local-date-time' to reject times like "2025-02-30T10:00".
+export const LOCAL_TIME_PATTERN = '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2})?$';
+
+// Offsets change on a quarter hour (Adelaide at 16:30 UTC, Lord Howe at 15:30 UTC)
+const OFFSET_CHANGE_STEP_SECONDS = 15 * 60;
+
+/**
+ * Time zone rules in effect at a location at a Unix timestamp (seconds).
+ * Lookups are made (and cached) for the start of the quarter hour containing
+ * the timestamp, which no offset change falls inside.
+ */
+export async function lookupTimeZone(location: { lat: number; lng: number }, timestamp: number): Promise<TimeZoneInfo> {
+  const quarterHour = Math.floor(timestamp / OFFSET_CHANGE_STEP_SECONDS) * OFFSET_CHANGE_STEP_SECONDS;
+  const params = new URLSearchParams({
+    location: `${location.lat},${location.lng}`,
+    timestamp: String(quarterHour),
+    key: GOOGLE_PLACES_API_KEY!,
+  });
+
+  const { value: data } = await cachedLookup<any>('get_timezone', { ...location, timestamp: quarterHour }, async () => {
+    const response = await upstreamFetch('timezone', `${ENDPOINTS.maps}/timezone/json?${params}`);
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('timezone', response);
+    }
+
+    const data: any = await response.json();
+
+    if (data.status !== 'OK') {
+      throw upstreamErrorFromStatus('timezone', data.status, data.errorMessage);
+    }
+
+    return data;
+  });
+
+  return {
+    time_zone_id: data.timeZoneId,
+    time_zone_name: data.timeZoneName,
+    raw_offset_seconds: data.rawOffset,
+    dst_offset_seconds: data.dstOffset,
+    utc_offset_seconds: data.rawOffset + data.dstOffset,
+  };
+}
+
+/**
+ * "+05:30" style offset for a number of seconds east of UTC.
+ */
+function formatOffset(offsetSeconds: number): string {
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const minutes = Math.abs(offsetSeconds) / 60;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${sign}${hh}:${mm}`;
+}
+
+/**
+ * ISO 8601 local time with offset, e.g. "2025-06-01T08:30:00-07:00".
+ */
+export function formatLocalTime(timestamp: number, offsetSeconds: number): string {
+  const local = new Date((timestamp + offsetSeconds) * 1000).toISOString().substring(0, 19);
+  return `${local}${formatOffset(offsetSeconds)}`;
+}
+
+/**
+ * Convert a local wall-clock time at a location to a Unix timestamp. The
+ * offsets a day before and a day after are tried (assuming at most one
+ * transition in between). Times that fall in a DST gap move forward by the
+ * gap (02:30 becomes 03:30), and ambiguous times resolve to the later instant.
+ * localTime is checked against the local-date-time format by the input
+ * schema before any tool gets here.
+ */
+export async function resolveLocalTime(
+  location: { lat: number; lng: number },
+  localTime: string
+): Promise<{ timestamp: number; local_time: string; time_zone: TimeZoneInfo }> {
+  const wallClock = Date.parse(`${localTime}Z`);
+  if (isNaN(wallClock)) {
+    throw new Error(`"${localTime}" is not a valid local time`);
+  }
+  const wallSeconds = Math.floor(wallClock / 1000);
+
+  const before = await lookupTimeZone(location, wallSeconds - 86400);
+  const after = await lookupTimeZone(location, wallSeconds + 86400);
+  let timestamp = wallSeconds - before.utc_offset_seconds;
+
+  if (after.utc_offset_seconds !== before.utc_offset_seconds) {
+    // Each offset is a valid reading if it is in effect at the instant it gives
+    const candidates = [];
+    for (const offset of [before.utc_offset_seconds, after.utc_offset_seconds]) {
+      const candidate = wallSeconds - offset;
+      if ((await lookupTimeZone(location, candidate)).utc_offset_seconds === offset) {
+        candidates.push(candidate);
+      }
+    }
+    // None: the time is in a gap, and the offset before it moves it forward.
+    // Both: the time is ambiguous, and the later instant wins.
+    if (candidates.length > 0) {
+      timestamp = Math.max(...candidates);
+    }
+  }
+
+  const zone = await lookupTimeZone(location, timestamp);
+  return { timestamp, local_time: formatLocalTime(timestamp, zone.utc_offset_seconds), time_zone: zone };
+}
+
+async function handleGetTimezone(args: any) {
+  const { location } = args;
+  const timestamp = args.timestamp ?? Math.floor(Date.now() / 1000);
+  console.error(`[DEBUG] Getting time zone for ${location.lat},${location.lng} at ${timestamp}`);
+
+  const zone = await lookupTimeZone(location, timestamp);
+
+  return jsonResult({
+    success: true,
+    location,
+    timestamp,
+    ...zone,
+    local_time: formatLocalTime(timestamp, zone.utc_offset_seconds),
+  });
+}
+
+export const getTimezoneTool: ToolDefinition = {
+  name: 'get_timezone',
+  title: 'Get Time Zone',
+  description: 'Get the IANA time zone, UTC/DST offsets and local wall-clock time at a location, now or at a given Unix timestamp. Use it to interpret or produce local times for journal entries and schedules.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      location: latLngSchema('Location {lat: number, lng: number}'),
+      timestamp: {
+        type: 'integer',
+        description: 'Unix timestamp in seconds (default: now). DST is applied as of this instant.',
+        minimum: 0,
+      },
+    },
+    required: ['location'],
+  },
+  outputSchema: resultSchema({
+    location: LAT_LNG_RESULT_SCHEMA,
+    timestamp: { type: 'number' },
+    time_zone_id: { type: 'string', description: 'IANA ID, e.g. "America/Los_Angeles"' },
+    time_zone_name: { type: 'string' },
+    raw_offset_seconds: { type: 'number', description: 'Standard offset from UTC' },
+    dst_offset_seconds: { type: 'number', description: 'Daylight saving offset in effect (0 if none)' },
+    utc_offset_seconds: { type: 'number', description: 'raw + dst' },
+    local_time: { type: 'string', description: 'ISO 8601 with offset' },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetTimezone,
+};
@@ -0,0 +1,129 @@
+/**
+ * Unit handling shared by the Weather API tools.
+ *
+ * The Weather API only knows METRIC and IMPERIAL. "standard" is fetched as
+ * METRIC and converted here: Kelvin for temperatures, m/s for speeds.
+ */
+
+export const WEATHER_UNITS = ['metric', 'imperial', 'standard'];
+
+export interface UnitLabels {
+  temperature: string;
+  speed: string;
+  precipitation: string;
+  distance: string;
+}
+
+const UNIT_LABELS: Record<string, UnitLabels> = {
+  metric: { temperature: '°C', speed: 'km/h', precipitation: 'mm', distance: 'km' },
+  imperial: { temperature: '°F', speed: 'mph', precipitation: 'in', distance: 'mi' },
+  standard: { temperature: 'K', speed: 'm/s', precipitation: 'mm', distance: 'km' },
+};
+
+export function unitsSystemFor(units: string): 'METRIC' | 'IMPERIAL' {
+  return units === 'imperial' ? 'IMPERIAL' : 'METRIC';
+}
+
+export function unitLabels(units: string): UnitLabels {
+  return UNIT_LABELS[units] || UNIT_LABELS.metric;
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Temperature ({degrees, unit}) in the requested units.
+ */
+export function temperatureValue(temperature: any, units: string): number | null {
+  if (typeof temperature?.degrees !== 'number') {
+    return null;
+  }
+  if (units === 'standard') {
+    const celsius = temperature.unit === 'FAHRENHEIT' ? (temperature.degrees - 32) * 5 / 9 : temperature.degrees;
+    return round(celsius + 273.15, 2);
+  }
+  return temperature.degrees;
+}
+
+/**
+ * Wind speed or gust ({value, unit}) in the requested units.
+ */
+export function speedValue(speed: any, units: string): number | null {
+  if (typeof speed?.value !== 'number') {
+    return null;
+  }
+  if (units === 'standard') {
+    const kmh = speed.unit === 'MILES_PER_HOUR' ? speed.value * 1.609344 : speed.value;
+    return round(kmh / 3.6);
+  }
+  return speed.value;
+}
+
+/**
+ * Precipitation amount ({quantity, unit}); already in mm or inches.
+ */
+export function precipitationValue(qpf: any): number | null {
+  return typeof qpf?.quantity === 'number' ? qpf.quantity : null;
+}
+
+/**
+ * Visibility ({distance, unit}); already in km or miles.
+ */
+export function distanceValue(distance: any): number | null {
+  return typeof distance?.distance === 'number' ? distance.distance : null;
+}
+
+export interface Measurement {
+  value: number;
+  unit: string;
+}
+
+/**
+ * A value labelled with its unit, or null when Google did not report it.
+ */
+export function measurement(value: number | null | undefined, unit: string): Measurement | null {
+  return typeof value === 'number' ? { value, unit } : null;
+}
+
+const CARDINAL_WORDS: Record<string, string> = {
+  NORTH: 'N', SOUTH: 'S', EAST: 'E', WEST: 'W',
+  NORTHEAST: 'NE', NORTHWEST: 'NW', SOUTHEAST: 'SE', SOUTHWEST: 'SW',
+};
+
+/**
+ * SOUTH_SOUTHWEST -> SSW.
+ */
+export function cardinalAbbreviation(cardinal: string | undefined): string | null {
+  if (!cardinal || cardinal === 'CARDINAL_DIRECTION_UNSPECIFIED') {
+    return null;
+  }
+  return cardinal.split('_').map((word) => CARDINAL_WORDS[word] || '').join('') || null;
+}
+
+/**
+ * Weather API DateTime ({year, month, day, hours, ..., utcOffset: "-28800s"})
+ * as ISO 8601 local time with offset.
+ */
+export function formatDisplayDateTime(dateTime: any): string | null {
+  if (!dateTime?.year) {
+    return null;
+  }
+  const pad = (value: number | undefined) => String(value || 0).padStart(2, '0');
+  const offsetSeconds = parseInt(dateTime.utcOffset || '0', 10) || 0;
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const offsetMinutes = Math.abs(offsetSeconds) / 60;
+  const offset = `${sign}${pad(Math.floor(offsetMinutes / 60))}:${pad(offsetMinutes % 60)}`;
+  return `${dateTime.year}-${pad(dateTime.month)}-${pad(dateTime.day)}T${pad(dateTime.hours)}:${pad(dateTime.minutes)}${offset}`;
+}
+
+/**
+ * Weather API Date ({year, month, day}) as YYYY-MM-DD.
+ */
+export function formatDisplayDate(date: any): string | null {
+  if (!date?.year) {
+    return null;
+  }
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
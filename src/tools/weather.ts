@@ -0,0 +1,589 @@
+/**
+ * Weather API tools.
+ */
+
+import { GOOGLE_PLACES_API_KEY, ENDPOINTS } from '../config.js';
+import { ToolDefinition, jsonResult, latLngSchema, resultSchema, READ_ONLY_ANNOTATIONS, LAT_LNG_RESULT_SCHEMA, NULLABLE_STRING, NULLABLE_NUMBER, NULLABLE_BOOLEAN } from './common.js';
+import { cachedLookup } from '../utils/cache.js';
+import { UpstreamError, upstreamErrorFromResponse } from '../utils/errors.js';
+import { upstreamFetch } from '../upstream/client.js';
+import {
+  WEATHER_UNITS,
+  unitsSystemFor,
+  unitLabels,
+  temperatureValue,
+  speedValue,
+  precipitationValue,
+  distanceValue,
+  measurement,
+  cardinalAbbreviation,
+  formatDisplayDateTime,
+  formatDisplayDate,
+} from './weather-units.js';
+import { resolveLocalTime, formatLocalTime, LOCAL_TIME_PATTERN } from './timezone.js';
+
+// Weather API forecast limits
+const MAX_FORECAST_HOURS = 240;
+const MAX_FORECAST_DAYS = 10;
+const MAX_HOURS_PAGE_SIZE = 24;
+const MAX_DAYS_PAGE_SIZE = 10;
+const MAX_HISTORY_HOURS = 24;
+
+// Paginated Weather API lookups: path, count parameter and list field
+const WEATHER_PAGED_ENDPOINTS = {
+  forecastHours: { path: 'forecast/hours:lookup', countParam: 'hours', listField: 'forecastHours' },
+  forecastDays: { path: 'forecast/days:lookup', countParam: 'days', listField: 'forecastDays' },
+  historyHours: { path: 'history/hours:lookup', countParam: 'hours', listField: 'historyHours' },
+};
+
+/**
+ * Current conditions with every measurement labelled with its unit.
+ */
+function normalizeCurrentConditions(data: any, units: string): any {
+  const labels = unitLabels(units);
+  return {
+    observed_at: data.currentTime ?? null,
+    time_zone: data.timeZone?.id ?? null,
+    condition: data.weatherCondition?.description?.text ?? null,
+    is_daytime: data.isDaytime ?? null,
+    temperature: measurement(temperatureValue(data.temperature, units), labels.temperature),
+    feels_like: measurement(temperatureValue(data.feelsLikeTemperature, units), labels.temperature),
+    humidity: measurement(data.relativeHumidity, '%'),
+    wind_speed: measurement(speedValue(data.wind?.speed, units), labels.speed),
+    wind_gust: measurement(speedValue(data.wind?.gust, units), labels.speed),
+    wind_direction: cardinalAbbreviation(data.wind?.direction?.cardinal),
+    wind_direction_degrees: measurement(data.wind?.direction?.degrees, '°'),
+    precipitation_probability: measurement(data.precipitation?.probability?.percent, '%'),
+    precipitation: measurement(precipitationValue(data.precipitation?.qpf), labels.precipitation),
+    uv_index: measurement(data.uvIndex, 'UV index'),
+    visibility: measurement(distanceValue(data.visibility), labels.distance),
+    cloud_cover: measurement(data.cloudCover, '%'),
+  };
+}
+
+async function handleGetWeather(args: any) {
+  const { location, units = 'metric', raw = false } = args;
+  const { lat, lng } = location;
+  console.error(`[DEBUG] Getting weather for location: ${lat}, ${lng}`);
+
+  const unitsSystem = unitsSystemFor(units);
+  const weatherUrl = `${ENDPOINTS.weather}/currentConditions:lookup?key=${GOOGLE_PLACES_API_KEY}&location.latitude=${lat}&location.longitude=${lng}&unitsSystem=${unitsSystem}`;
+  
+  const { value: weatherData, cache } = await cachedLookup<any>('get_weather', { lat, lng, unitsSystem }, async () => {
+    const weatherResponse = await upstreamFetch('weather', weatherUrl);
+
+    if (!weatherResponse.ok) {
+      throw await upstreamErrorFromResponse('weather', weatherResponse);
+    }
+
+    return weatherResponse.json();
+  });
+
+  return jsonResult({
+    success: true,
+    location,
+    units,
+    cache,
+    current: normalizeCurrentConditions(weatherData, units),
+    ...(raw && { raw: weatherData }),
+  });
+}
+
+/**
+ * Fetch a paginated Weather API lookup page by page until `count` periods
+ * are collected or Google has no more pages.
+ */
+async function fetchWeatherPages(
+  endpoint: keyof typeof WEATHER_PAGED_ENDPOINTS,
+  location: { lat: number; lng: number },
+  count: number,
+  pageSize: number,
+  unitsSystem: string,
+): Promise<{ periods: any[]; timeZone?: string }> {
+  const { path, countParam, listField } = WEATHER_PAGED_ENDPOINTS[endpoint];
+  const periods: any[] = [];
+  let timeZone: string | undefined;
+  let pageToken: string | undefined;
+  const maxPages = Math.ceil(count / pageSize);
+
+  for (let page = 0; page < maxPages; page++) {
+    const params = new URLSearchParams({
+      key: GOOGLE_PLACES_API_KEY!,
+      'location.latitude': String(location.lat),
+      'location.longitude': String(location.lng),
+      [countParam]: String(count),
+      pageSize: String(pageSize),
+      unitsSystem,
+    });
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    const response = await upstreamFetch('weather', `${ENDPOINTS.weather}/${path}?${params}`);
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('weather', response);
+    }
+
+    const data: any = await response.json();
+    periods.push(...(data[listField] || []));
+    timeZone = timeZone || data.timeZone?.id;
+    pageToken = data.nextPageToken;
+    if (!pageToken || periods.length >= count) {
+      break;
+    }
+  }
+
+  return { periods: periods.slice(0, count), timeZone };
+}
+
+/**
+ * Compact summary of one forecast or history hour.
+ */
+function summarizeHour(hour: any, units: string): any {
+  return {
+    time: formatDisplayDateTime(hour.displayDateTime) || hour.interval?.startTime,
+    condition: hour.weatherCondition?.description?.text ?? null,
+    temperature: temperatureValue(hour.temperature, units),
+    feels_like: temperatureValue(hour.feelsLikeTemperature, units),
+    precipitation_probability: hour.precipitation?.probability?.percent ?? null,
+    precipitation: precipitationValue(hour.precipitation?.qpf),
+    wind_speed: speedValue(hour.wind?.speed, units),
+    wind_direction: cardinalAbbreviation(hour.wind?.direction?.cardinal),
+    humidity: hour.relativeHumidity ?? null,
+    uv_index: hour.uvIndex ?? null,
+    thunderstorm_probability: hour.thunderstormProbability ?? null,
+    is_daytime: hour.isDaytime ?? null,
+  };
+}
+
+function summarizeForecastDay(day: any, units: string): any {
+  const daytime = day.daytimeForecast || {};
+  const nighttime = day.nighttimeForecast || {};
+  const probabilities = [daytime, nighttime]
+    .map((part) => part.precipitation?.probability?.percent)
+    .filter((percent) => typeof percent === 'number');
+  const amounts = [daytime, nighttime]
+    .map((part) => precipitationValue(part.precipitation?.qpf))
+    .filter((amount): amount is number => amount !== null);
+  const windSpeeds = [daytime, nighttime]
+    .map((part) => speedValue(part.wind?.speed, units))
+    .filter((speed): speed is number => speed !== null);
+
+  return {
+    date: formatDisplayDate(day.displayDate) || day.interval?.startTime,
+    condition: daytime.weatherCondition?.description?.text ?? null,
+    night_condition: nighttime.weatherCondition?.description?.text ?? null,
+    min_temperature: temperatureValue(day.minTemperature, units),
+    max_temperature: temperatureValue(day.maxTemperature, units),
+    precipitation_probability: probabilities.length > 0 ? Math.max(...probabilities) : null,
+    precipitation: amounts.length > 0 ? Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100 : null,
+    wind_speed: windSpeeds.length > 0 ? Math.max(...windSpeeds) : null,
+    wind_direction: cardinalAbbreviation(daytime.wind?.direction?.cardinal),
+    humidity: daytime.relativeHumidity ?? null,
+    uv_index: daytime.uvIndex ?? null,
+    thunderstorm_probability: daytime.thunderstormProbability ?? null,
+    sunrise: day.sunEvents?.sunriseTime ?? null,
+    sunset: day.sunEvents?.sunsetTime ?? null,
+  };
+}
+
+async function handleGetWeatherForecast(args: any) {
+  const { location, hours, days, units = 'metric' } = args;
+  const hoursPageSize = args.hours_page_size ?? MAX_HOURS_PAGE_SIZE;
+  const daysPageSize = args.days_page_size ?? MAX_DAYS_PAGE_SIZE;
+  const unitsSystem = unitsSystemFor(units);
+  console.error(`[DEBUG] Getting forecast for ${location.lat}, ${location.lng}: ${hours ?? 0} hour(s), ${days ?? 0} day(s)`);
+
+  const keyParts = { lat: location.lat, lng: location.lng, unitsSystem, hours, days, hoursPageSize, daysPageSize };
+  const { value: forecast, cache } = await cachedLookup<any>('get_weather_forecast', keyParts, async () => {
+    const [hourly, daily] = await Promise.all([
+      hours ? fetchWeatherPages('forecastHours', location, hours, hoursPageSize, unitsSystem) : undefined,
+      days ? fetchWeatherPages('forecastDays', location, days, daysPageSize, unitsSystem) : undefined,
+    ]);
+    return { hourly, daily };
+  });
+
+  const hourly = forecast.hourly?.periods.map((hour: any) => summarizeHour(hour, units));
+  const daily = forecast.daily?.periods.map((day: any) => summarizeForecastDay(day, units));
+
+  return jsonResult({
+    success: true,
+    location,
+    units,
+    unit_labels: unitLabels(units),
+    time_zone: forecast.hourly?.timeZone || forecast.daily?.timeZone || null,
+    cache,
+    ...(hourly && { hourly: { count: hourly.length, periods: hourly } }),
+    ...(daily && { daily: { count: daily.length, periods: daily } }),
+  });
+}
+
+/**
+ * Most frequent condition text; ties go to the condition seen first.
+ */
+function dominantCondition(hours: any[]): string | null {
+  const counts = new Map<string, number>();
+  for (const hour of hours) {
+    const text = hour.weatherCondition?.description?.text;
+    if (text) {
+      counts.set(text, (counts.get(text) || 0) + 1);
+    }
+  }
+  let dominant: string | null = null;
+  for (const [text, count] of counts) {
+    if (dominant === null || count > counts.get(dominant)!) {
+      dominant = text;
+    }
+  }
+  return dominant;
+}
+
+function summarizeHistory(hours: any[], units: string): any {
+  const temperatures = hours
+    .map((hour) => temperatureValue(hour.temperature, units))
+    .filter((value): value is number => value !== null);
+  const amounts = hours
+    .map((hour) => precipitationValue(hour.precipitation?.qpf))
+    .filter((value): value is number => value !== null);
+  return {
+    hours: hours.length,
+    min_temperature: temperatures.length > 0 ? Math.min(...temperatures) : null,
+    max_temperature: temperatures.length > 0 ? Math.max(...temperatures) : null,
+    total_precipitation: amounts.length > 0 ? Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100 : null,
+    dominant_condition: dominantCondition(hours),
+  };
+}
+
+interface HistoryWindow {
+  start: number;
+  end: number;
+  // UTC offsets at start and end, when the Time Zone API resolved them
+  startOffset?: number;
+  endOffset?: number;
+}
+
+/**
+ * The window to report, as Unix seconds. Local start/end times are resolved
+ * in the location's time zone; otherwise it is the last `hours` hours, which
+ * needs no Time Zone API call.
+ */
+async function historyWindow(args: any, nowSeconds: number): Promise<HistoryWindow> {
+  const { location, start_time, end_time } = args;
+  if (!start_time) {
+    return { start: nowSeconds - (args.hours ?? MAX_HISTORY_HOURS) * 3600, end: nowSeconds };
+  }
+
+  const resolvedStart = await resolveLocalTime(location, start_time);
+  const resolvedEnd = end_time ? await resolveLocalTime(location, end_time) : undefined;
+  const start = resolvedStart.timestamp;
+  const end = resolvedEnd?.timestamp ?? nowSeconds;
+  if (end <= start) {
+    throw new UpstreamError('INVALID_ARGUMENT', 'weather', 'end_time must be after start_time');
+  }
+  if (start < nowSeconds - MAX_HISTORY_HOURS * 3600) {
+    throw new UpstreamError('INVALID_ARGUMENT', 'weather', `Weather history only covers the last ${MAX_HISTORY_HOURS} hours; start_time is earlier`);
+  }
+  if (start >= nowSeconds) {
+    throw new UpstreamError('INVALID_ARGUMENT', 'weather', 'start_time is in the future; use get_weather_forecast instead');
+  }
+  return {
+    start,
+    end: Math.min(end, nowSeconds),
+    startOffset: resolvedStart.time_zone.utc_offset_seconds,
+    endOffset: resolvedEnd && end <= nowSeconds ? resolvedEnd.time_zone.utc_offset_seconds : undefined,
+  };
+}
+
+/**
+ * UTC offset (seconds) at a timestamp, from the displayDateTime of the history
+ * hour containing it, or of the closest hour. 0 when there are no hours.
+ */
+function historyOffsetAt(hours: any[], timestamp: number): number {
+  let closest: any;
+  let closestDistance = Infinity;
+  for (const hour of hours) {
+    const start = Date.parse(hour.interval?.startTime) / 1000;
+    const end = Date.parse(hour.interval?.endTime) / 1000;
+    const distance = timestamp < start ? start - timestamp : timestamp >= end ? timestamp - end : 0;
+    if (distance < closestDistance) {
+      closest = hour;
+      closestDistance = distance;
+    }
+  }
+  return parseInt(closest?.displayDateTime?.utcOffset || '0', 10) || 0;
+}
+
+async function handleGetWeatherHistory(args: any) {
+  const { location, units = 'metric', include_hours = false } = args;
+  const unitsSystem = unitsSystemFor(units);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const window = await historyWindow(args, nowSeconds);
+  const hours = Math.min(MAX_HISTORY_HOURS, Math.ceil((nowSeconds - window.start) / 3600));
+  console.error(`[DEBUG] Getting ${hours} hour(s) of weather history for ${location.lat}, ${location.lng}`);
+
+  const keyParts = { lat: location.lat, lng: location.lng, unitsSystem, hours };
+  const { value: history, cache } = await cachedLookup<any>('get_weather_history', keyParts, () =>
+    fetchWeatherPages('historyHours', location, hours, MAX_HISTORY_HOURS, unitsSystem)
+  );
+
+  // Keep hours that overlap the window, oldest first
+  const periods = history.periods
+    .filter((hour: any) => {
+      const start = Date.parse(hour.interval?.startTime) / 1000;
+      const end = Date.parse(hour.interval?.endTime) / 1000;
+      return start < window.end && end > window.start;
+    })
+    .sort((a: any, b: any) => Date.parse(a.interval.startTime) - Date.parse(b.interval.startTime));
+
+  const startOffset = window.startOffset ?? historyOffsetAt(history.periods, window.start);
+  const endOffset = window.endOffset ?? historyOffsetAt(history.periods, window.end);
+
+  return jsonResult({
+    success: true,
+    location,
+    units,
+    unit_labels: unitLabels(units),
+    time_zone: history.timeZone ?? null,
+    window: {
+      start: formatLocalTime(window.start, startOffset),
+      end: formatLocalTime(window.end, endOffset),
+    },
+    cache,
+    summary: summarizeHistory(periods, units),
+    ...(include_hours && { hours: periods.map((hour: any) => summarizeHour(hour, units)) }),
+  });
+}
+
+const MEASUREMENT_SCHEMA = {
+  type: ['object', 'null'],
+  properties: {
+    value: { type: 'number' },
+    unit: { type: 'string' },
+  },
+};
+
+export const getWeatherTool: ToolDefinition = {
+  name: 'get_weather',
+  title: 'Get Current Weather',
+  description: 'Get current weather conditions for a location: temperature, feels-like, humidity, wind, precipitation chance, UV, visibility and a condition text, each with its unit.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      location: latLngSchema('Location coordinates {lat: number, lng: number}'),
+      units: {
+        type: 'string',
+        description: 'metric (°C, km/h, mm, km), imperial (°F, mph, in, mi) or standard (K, m/s, mm, km). Default: metric',
+        enum: WEATHER_UNITS,
+      },
+      raw: {
+        type: 'boolean',
+        description: 'Also return the unmodified Weather API response as raw (default: false). It is large; only ask for it when a field you need is missing.',
+      },
+    },
+    required: ['location'],
+  },
+  outputSchema: resultSchema({
+    location: LAT_LNG_RESULT_SCHEMA,
+    units: { type: 'string', enum: WEATHER_UNITS },
+    current: {
+      type: 'object',
+      description: 'Measurements are {value, unit}, or null when not reported',
+      properties: {
+        observed_at: NULLABLE_STRING,
+        time_zone: NULLABLE_STRING,
+        condition: NULLABLE_STRING,
+        is_daytime: NULLABLE_BOOLEAN,
+        temperature: MEASUREMENT_SCHEMA,
+        feels_like: MEASUREMENT_SCHEMA,
+        humidity: MEASUREMENT_SCHEMA,
+        wind_speed: MEASUREMENT_SCHEMA,
+        wind_gust: MEASUREMENT_SCHEMA,
+        wind_direction: { ...NULLABLE_STRING, description: 'Cardinal direction the wind blows from, e.g. "SSW"' },
+        wind_direction_degrees: MEASUREMENT_SCHEMA,
+        precipitation_probability: MEASUREMENT_SCHEMA,
+        precipitation: MEASUREMENT_SCHEMA,
+        uv_index: MEASUREMENT_SCHEMA,
+        visibility: MEASUREMENT_SCHEMA,
+        cloud_cover: MEASUREMENT_SCHEMA,
+      },
+    },
+    raw: { type: 'object', description: 'Weather API currentConditions response (only with raw: true)' },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetWeather,
+};
+
+const UNIT_LABELS_SCHEMA = {
+  type: 'object',
+  description: 'Unit of every temperature, speed, precipitation and distance value',
+  properties: {
+    temperature: { type: 'string' },
+    speed: { type: 'string' },
+    precipitation: { type: 'string' },
+    distance: { type: 'string' },
+  },
+};
+
+const HOUR_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    time: { type: 'string', description: 'Local start of the hour, ISO 8601 with offset' },
+    condition: NULLABLE_STRING,
+    temperature: NULLABLE_NUMBER,
+    feels_like: NULLABLE_NUMBER,
+    precipitation_probability: { ...NULLABLE_NUMBER, description: 'Percent' },
+    precipitation: NULLABLE_NUMBER,
+    wind_speed: NULLABLE_NUMBER,
+    wind_direction: { ...NULLABLE_STRING, description: 'Cardinal, e.g. "SSW"' },
+    humidity: { ...NULLABLE_NUMBER, description: 'Percent' },
+    uv_index: NULLABLE_NUMBER,
+    thunderstorm_probability: { ...NULLABLE_NUMBER, description: 'Percent' },
+    is_daytime: NULLABLE_BOOLEAN,
+  },
+};
+
+const FORECAST_DAY_SCHEMA = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', description: 'Local date, YYYY-MM-DD' },
+    condition: { ...NULLABLE_STRING, description: 'Daytime condition' },
+    night_condition: NULLABLE_STRING,
+    min_temperature: NULLABLE_NUMBER,
+    max_temperature: NULLABLE_NUMBER,
+    precipitation_probability: { ...NULLABLE_NUMBER, description: 'Percent, highest of day and night' },
+    precipitation: { ...NULLABLE_NUMBER, description: 'Day and night total' },
+    wind_speed: { ...NULLABLE_NUMBER, description: 'Highest of day and night' },
+    wind_direction: NULLABLE_STRING,
+    humidity: NULLABLE_NUMBER,
+    uv_index: NULLABLE_NUMBER,
+    thunderstorm_probability: NULLABLE_NUMBER,
+    sunrise: NULLABLE_STRING,
+    sunset: NULLABLE_STRING,
+  },
+};
+
+export const getWeatherForecastTool: ToolDefinition = {
+  name: 'get_weather_forecast',
+  title: 'Get Weather Forecast',
+  description: 'Get an hourly (up to 240 hours) and/or daily (up to 10 days) weather forecast for a location, as compact per-period summaries. Use for questions like "will it rain during tomorrow\'s hike?".',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      location: latLngSchema('Location coordinates {lat: number, lng: number}'),
+      hours: {
+        type: 'integer',
+        description: `Number of hourly periods from now (1-${MAX_FORECAST_HOURS})`,
+        minimum: 1,
+        maximum: MAX_FORECAST_HOURS,
+      },
+      days: {
+        type: 'integer',
+        description: `Number of daily periods from today (1-${MAX_FORECAST_DAYS})`,
+        minimum: 1,
+        maximum: MAX_FORECAST_DAYS,
+      },
+      hours_page_size: {
+        type: 'integer',
+        description: `Hours fetched per Weather API page (default and max: ${MAX_HOURS_PAGE_SIZE}); pages are followed until hours is reached`,
+        minimum: 1,
+        maximum: MAX_HOURS_PAGE_SIZE,
+      },
+      days_page_size: {
+        type: 'integer',
+        description: `Days fetched per Weather API page (default and max: ${MAX_DAYS_PAGE_SIZE})`,
+        minimum: 1,
+        maximum: MAX_DAYS_PAGE_SIZE,
+      },
+      units: {
+        type: 'string',
+        description: 'metric (°C, km/h, mm), imperial (°F, mph, in) or standard (K, m/s, mm). Default: metric',
+        enum: WEATHER_UNITS,
+      },
+    },
+    required: ['location'],
+    anyOf: [
+      { required: ['hours'] },
+      { required: ['days'] },
+    ],
+  },
+  outputSchema: resultSchema({
+    location: LAT_LNG_RESULT_SCHEMA,
+    units: { type: 'string', enum: WEATHER_UNITS },
+    unit_labels: UNIT_LABELS_SCHEMA,
+    time_zone: NULLABLE_STRING,
+    hourly: {
+      type: 'object',
+      properties: { count: { type: 'number' }, periods: { type: 'array', items: HOUR_SUMMARY_SCHEMA } },
+    },
+    daily: {
+      type: 'object',
+      properties: { count: { type: 'number' }, periods: { type: 'array', items: FORECAST_DAY_SCHEMA } },
+    },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetWeatherForecast,
+};
+
+export const getWeatherHistoryTool: ToolDefinition = {
+  name: 'get_weather_history',
+  title: 'Get Weather History',
+  description: 'Get what the weather actually was at a location over the last 24 hours at most: min/max temperature, total precipitation and dominant condition. Give hours back from now, or a local start_time/end_time window (e.g. yesterday evening for a journal entry).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      location: latLngSchema('Location coordinates {lat: number, lng: number}'),
+      hours: {
+        type: 'integer',
+        description: `Hours back from now (1-${MAX_HISTORY_HOURS}, default: ${MAX_HISTORY_HOURS}). Ignored when start_time is given.`,
+        minimum: 1,
+        maximum: MAX_HISTORY_HOURS,
+      },
+      start_time: {
+        type: 'string',
+        description: 'Window start as local time at the location, e.g. "2025-06-01T18:00". Must be within the last 24 hours.',
+        pattern: LOCAL_TIME_PATTERN,
+        format: 'local-date-time',
+      },
+      end_time: {
+        type: 'string',
+        description: 'Window end as local time at the location (default: now). Only used with start_time.',
+        pattern: LOCAL_TIME_PATTERN,
+        format: 'local-date-time',
+      },
+      include_hours: {
+        type: 'boolean',
+        description: 'Also return a compact summary of each hour (default: false)',
+      },
+      units: {
+        type: 'string',
+        description: 'metric (°C, km/h, mm), imperial (°F, mph, in) or standard (K, m/s, mm). Default: metric',
+        enum: WEATHER_UNITS,
+      },
+    },
+    required: ['location'],
+  },
+  outputSchema: resultSchema({
+    location: LAT_LNG_RESULT_SCHEMA,
+    units: { type: 'string', enum: WEATHER_UNITS },
+    unit_labels: UNIT_LABELS_SCHEMA,
+    time_zone: NULLABLE_STRING,
+    window: {
+      type: 'object',
+      description: 'Local start and end of the reported window',
+      properties: { start: { type: 'string' }, end: { type: 'string' } },
+    },
+    summary: {
+      type: 'object',
+      properties: {
+        hours: { type: 'number' },
+        min_temperature: NULLABLE_NUMBER,
+        max_temperature: NULLABLE_NUMBER,
+        total_precipitation: NULLABLE_NUMBER,
+        dominant_condition: NULLABLE_STRING,
+      },
+    },
+    hours: { type: 'array', items: HOUR_SUMMARY_SCHEMA },
+  }),
+  annotations: READ_ONLY_ANNOTATIONS,
+  handler: handleGetWeatherHistory,
+};
@@ -0,0 +1,142 @@
+/**
+ * Bearer token authentication for the Streamable HTTP transport.
+ *
+ * Tokens are stored as SHA-256 hashes in the JSON file named by
+ * MCP_AUTH_TOKENS_FILE (hash a token with `googleplaces-mcp-server --hash-token <token>`):
+ *
+ *   {
+ *     "tokens": [
+ *       { "id": "journal-agent", "sha256": "<hex>", "scopes": ["tools:*"] },
+ *       { "id": "planner", "sha256": "<hex>", "scopes": ["tools:get_weather", "tools:get_directions"] }
+ *     ]
+ *   }
+ *
+ * Scopes are "tools:*" (every tool) or "tools:<name>". Without a tokens file
+ * the endpoint is unauthenticated.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { Request, Response, NextFunction } from 'express';
+import { createErrorResponse, JsonRpcError } from '../utils/jsonrpc.js';
+
+const REALM = 'googleplaces-mcp';
+
+export interface Principal {
+  id: string;
+  scopes: string[];
+}
+
+/**
+ * An authentication or authorization failure, ready to send.
+ */
+export interface AuthFailure {
+  status: 401 | 403;
+  challenge: string;
+  response: any;
+}
+
+export interface AuthConfig {
+  enabled: boolean;
+  tokensByHash: Map<string, Principal>;
+}
+
+/**
+ * SHA-256 hex digest of a bearer token, as stored in the tokens file.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Load hashed tokens from MCP_AUTH_TOKENS_FILE; auth is disabled when unset.
+ */
+export function loadAuthConfig(): AuthConfig {
+  const file = process.env.MCP_AUTH_TOKENS_FILE;
+  const tokensByHash = new Map<string, Principal>();
+  if (!file) {
+    return { enabled: false, tokensByHash };
+  }
+
+  const data = JSON.parse(readFileSync(file, 'utf8'));
+  for (const entry of data.tokens || []) {
+    if (typeof entry.sha256 !== 'string' || typeof entry.id !== 'string') {
+      throw new Error(`Invalid token entry in ${file}: each token needs "id" and "sha256"`);
+    }
+    tokensByHash.set(entry.sha256.toLowerCase(), { id: entry.id, scopes: entry.scopes || [] });
+  }
+  console.error(`[DEBUG] Loaded ${tokensByHash.size} auth token(s) from ${file}`);
+  return { enabled: true, tokensByHash };
+}
+
+/**
+ * Whether the principal may call the tool. Unauthenticated mode allows everything.
+ */
+export function hasToolScope(principal: Principal | undefined, toolName: string): boolean {
+  if (!principal) {
+    return true;
+  }
+  return principal.scopes.includes('tools:*') || principal.scopes.includes(`tools:${toolName}`);
+}
+
+function authFailure(status: 401 | 403, challenge: string, message: string, requestId: any): AuthFailure {
+  return {
+    status,
+    challenge,
+    response: createErrorResponse(requestId, status === 401 ? JsonRpcError.UNAUTHORIZED : JsonRpcError.FORBIDDEN, message),
+  };
+}
+
+/**
+ * Send an auth failure with its WWW-Authenticate challenge.
+ */
+export function sendAuthFailure(res: Response, failure: AuthFailure) {
+  res.set('WWW-Authenticate', failure.challenge);
+  res.status(failure.status).json(failure.response);
+}
+
+/**
+ * 403 insufficient_scope failure for a tools/call outside the principal's scopes, or null.
+ */
+export function checkToolScope(principal: Principal | undefined, toolName: string, requestId: any): AuthFailure | null {
+  if (hasToolScope(principal, toolName)) {
+    return null;
+  }
+  return authFailure(
+    403,
+    `Bearer realm="${REALM}", error="insufficient_scope", scope="tools:${toolName}"`,
+    `Token '${principal!.id}' is not allowed to call ${toolName}`,
+    requestId
+  );
+}
+
+/**
+ * Express middleware: authenticate the bearer token and expose the principal
+ * as res.locals.principal.
+ */
+export function createAuthMiddleware(config: AuthConfig) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!config.enabled) {
+      return next();
+    }
+
+    const requestId = req.body?.id ?? null;
+    const match = (req.get('Authorization') || '').match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      return sendAuthFailure(res, authFailure(401, `Bearer realm="${REALM}"`, 'Missing bearer token', requestId));
+    }
+
+    const principal = config.tokensByHash.get(hashToken(match[1]));
+    if (!principal) {
+      return sendAuthFailure(res, authFailure(
+        401,
+        `Bearer realm="${REALM}", error="invalid_token", error_description="The access token is invalid"`,
+        'Invalid bearer token',
+        requestId
+      ));
+    }
+
+    res.locals.principal = principal;
+    next();
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Per-session server-to-client SSE channel (GET /mcp).
+ *
+ * Every message gets an increasing event ID and is kept in a bounded replay
+ * buffer, so a client that reconnects with Last-Event-ID receives whatever it
+ * missed. Messages sent while no stream is attached are buffered the same way
+ * and delivered when the next stream attaches, even without Last-Event-ID.
+ * When events the client has not seen were already dropped from the buffer,
+ * the replay starts with a warning (without an event ID) so it can resync.
+ */
+
+import { Response } from 'express';
+import { formatSseEvent, sseGenerator } from '../utils/sse.js';
+
+const MAX_BUFFERED_EVENTS = 500;
+const KEEPALIVE_MS = 30000;
+
+interface BufferedEvent {
+  id: number;
+  data: any;
+}
+
+/**
+ * Log notification telling the client that events it missed are gone.
+ */
+function droppedEventsWarning(dropped: number, firstAvailableId: number): any {
+  return {
+    jsonrpc: '2.0',
+    method: 'notifications/message',
+    params: {
+      level: 'warning',
+      logger: 'googleplaces-mcp-server',
+      data: {
+        message: `${dropped} event(s) were dropped before they could be delivered; progress and log messages may be incomplete`,
+        dropped_events: dropped,
+        first_available_event_id: firstAvailableId,
+      },
+    },
+  };
+}
+
+export class SessionEventStream {
+  private buffer: BufferedEvent[] = [];
+  private nextId = 1;
+  // Highest event ID written to a live stream
+  private deliveredId = 0;
+  private response: Response | null = null;
+  // Stream still replaying; superseded if another attaches meanwhile
+  private attaching: Response | null = null;
+  private keepalive: NodeJS.Timeout | null = null;
+
+  /**
+   * Queue a JSON-RPC message for the client and write it if a stream is attached.
+   */
+  send(message: any): void {
+    const event = { id: this.nextId++, data: message };
+    this.buffer.push(event);
+    if (this.buffer.length > MAX_BUFFERED_EVENTS) {
+      this.buffer.shift();
+    }
+    if (this.response) {
+      this.response.write(formatSseEvent(event.data, event.id));
+      this.deliveredId = event.id;
+    }
+  }
+
+  /**
+   * Attach a GET /mcp response as the live stream, replacing any previous one,
+   * and replay buffered events after lastEventId (or every event not yet
+   * delivered). The stream only goes live once the replay is written, so
+   * events sent meanwhile follow the replayed ones in order.
+   */
+  async attach(res: Response, lastEventId?: string): Promise<void> {
+    this.detach();
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    this.attaching = res;
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+      if (this.response === res) {
+        this.detach();
+      }
+    });
+
+    const after = lastEventId !== undefined ? parseInt(lastEventId, 10) : NaN;
+    let cursor = isNaN(after) ? this.deliveredId : after;
+    let missed = this.buffer.filter((event) => event.id > cursor);
+    const dropped = this.buffer.length > 0 ? this.buffer[0].id - cursor - 1 : 0;
+    if (dropped > 0) {
+      console.error(`[DEBUG] ${dropped} event(s) after event ${cursor} were dropped from the replay buffer`);
+      res.write(formatSseEvent(droppedEventsWarning(dropped, this.buffer[0].id)));
+    }
+    if (missed.length > 0) {
+      console.error(`[DEBUG] Replaying ${missed.length} event(s) after event ${cursor}`);
+    }
+    // Events sent during the replay are picked up by the next pass
+    while (missed.length > 0 && !closed && this.attaching === res) {
+      for await (const chunk of sseGenerator(missed)) {
+        res.write(chunk);
+      }
+      cursor = missed[missed.length - 1].id;
+      this.deliveredId = Math.max(this.deliveredId, cursor);
+      missed = this.buffer.filter((event) => event.id > cursor);
+    }
+    if (closed || this.attaching !== res) {
+      if (this.attaching === res) {
+        this.attaching = null;
+      }
+      res.end();
+      return;
+    }
+
+    this.attaching = null;
+    this.response = res;
+    this.keepalive = setInterval(() => {
+      res.write(': keepalive\n\n');
+    }, KEEPALIVE_MS);
+  }
+
+  /**
+   * End the live stream, if any; buffered events are kept for resumption.
+   */
+  detach(): void {
+    if (this.attaching) {
+      const res = this.attaching;
+      this.attaching = null;
+      res.end();
+    }
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+    if (this.response) {
+      const res = this.response;
+      this.response = null;
+      res.end();
+    }
+  }
+
+  get connected(): boolean {
+    return this.response !== null;
+  }
+}
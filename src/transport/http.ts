@@ -3,534 +3,112 @@
  * 
  * Implements the official MCP Streamable HTTP specification:
  * - Single /mcp endpoint for all JSON-RPC communication
- * - POST /mcp: accepts JSON-RPC requests, responds with JSON or SSE
- * - GET /mcp: optional persistent SSE stream for server notifications
- * - /healthz: health check endpoint (separate from /mcp)
+ * - POST /mcp: accepts JSON-RPC requests, responds with JSON, or SSE when
+ *   the client accepts text/event-stream
+ * - GET /mcp: per-session SSE stream for server notifications (progress,
+ *   log messages), resumable with Last-Event-ID
+ * - DELETE /mcp: end the session named by the Mcp-Session-Id header
+ * - /healthz: health check endpoint (separate from /mcp, never authenticated)
  * 
- * This module wraps tool handlers with HTTP transport.
+ * This module wraps the shared tool registry with HTTP transport.
  */
 
 import express, { Request, Response, Express } from 'express';
-import { isValidJsonRpc, isNotification, createSuccessResponse, createErrorResponse, JsonRpcError, validateMcpProtocolVersion } from '../utils/jsonrpc.js';
-import { formatSseEvent } from '../utils/sse.js';
-
-const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
-const PLACES_API_BASE = 'https://places.googleapis.com/v1';
-
-// Tool handler functions (reused from main server)
-async function handleSearchPlaces(args: any) {
-  const { query, location, radius = 5000 } = args;
-  console.error(`[DEBUG] Searching places for: "${query}"`);
-  
-  const requestBody: any = {
-    textQuery: query,
-  };
-
-  if (location?.lat && location?.lng) {
-    requestBody.locationBias = {
-      circle: {
-        center: {
-          latitude: location.lat,
-          longitude: location.lng,
-        },
-        radius: Math.min(radius, 50000),
-      },
-    };
-  }
-
-  const response = await fetch(`${PLACES_API_BASE}/places:searchText`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
-      'X-Goog-FieldMask': 'places.name,places.displayName,places.formattedAddress,places.id,places.location,places.types,places.rating,places.userRatingCount,places.businessStatus',
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Places API error (${response.status}): ${errorText}`);
-  }
-
-  const data: any = await response.json();
-  
-  const results = (data.places || []).slice(0, 10).map((place: any) => {
-    const resourceName = place.name || `places/${place.id}`;
-    
-    return {
-      name: place.displayName?.text || 'Unknown',
-      address: place.formattedAddress || 'No address',
-      place_id: place.id,
-      resource_name: resourceName,
-      location: {
-        lat: place.location?.latitude,
-        lng: place.location?.longitude,
-      },
-      types: place.types || [],
-      rating: place.rating,
-      user_ratings_total: place.userRatingCount,
-      business_status: place.businessStatus,
-    };
-  });
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          query: query,
-          count: results.length,
-          results: results,
-        }, null, 2),
-      },
-    ],
-  };
-}
-
-async function handleGetPlaceDetails(args: any) {
-  const { place_id } = args;
-  console.error(`[DEBUG] Getting details for place_id: ${place_id}`);
-
-  const placeId = place_id.startsWith('places/') ? place_id.substring(7) : place_id;
-  const fullUrl = `${PLACES_API_BASE}/places/${placeId}`;
-  
-  const response = await fetch(fullUrl, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
-      'X-Goog-FieldMask': 'id,displayName,formattedAddress',
-    },
-  });
+import { isValidJsonRpc, isNotification, isBatch, requestIdOf, createSuccessResponse, createErrorResponse, JsonRpcError, validateMcpProtocolVersion } from '../utils/jsonrpc.js';
+import { formatSseEvent, formatSseError } from '../utils/sse.js';
+import { listTools, getTool, callTool, validateToolArguments } from '../tools/registry.js';
+import { formatValidationIssues } from '../utils/validation.js';
+import { ToolContext, NOOP_TOOL_CONTEXT, LOG_LEVELS, LogLevel, isLogLevelEnabled } from '../tools/common.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { SERVER_INFO, SERVER_CAPABILITIES, negotiateProtocolVersion } from '../utils/protocol.js';
+import { responseCache } from '../utils/cache.js';
+import { circuitBreakerStates } from '../upstream/client.js';
+import { RateLimiter, loadRateLimitConfig, clientIdentity } from './rate-limit.js';
+import { Principal, loadAuthConfig, createAuthMiddleware, hasToolScope, checkToolScope } from './auth.js';
+import { Session, SessionStore, SESSION_HEADER } from './session.js';
+
+// Batches: at most MCP_BATCH_MAX_SIZE messages, MCP_BATCH_CONCURRENCY of them in flight
+const MAX_BATCH_SIZE = parseInt(process.env.MCP_BATCH_MAX_SIZE || '', 10) || 50;
+const BATCH_CONCURRENCY = parseInt(process.env.MCP_BATCH_CONCURRENCY || '', 10) || 4;
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Places API error (${response.status}): ${errorText}`);
-  }
-
-  const place: any = await response.json();
-
-  const details = {
-    name: place.displayName?.text || 'Unknown',
-    address: place.formattedAddress || 'No address',
-    place_id: place.id,
-    location: {
-      lat: place.location?.latitude,
-      lng: place.location?.longitude,
-    },
-  };
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          details: details,
-        }, null, 2),
-      },
-    ],
-  };
+/**
+ * A request rejected before dispatch, with its HTTP status and headers.
+ */
+interface Rejection {
+  status: number;
+  headers: Record<string, string>;
+  response: any;
 }
 
-async function handleGetWeather(args: any) {
-  const { location, units = 'metric' } = args;
-  const { lat, lng } = location;
-  console.error(`[DEBUG] Getting weather for location: ${lat}, ${lng}`);
-
-  const unitsSystem = units === 'imperial' ? 'IMPERIAL' : 'METRIC';
-  const weatherUrl = `https://weather.googleapis.com/v1/currentConditions:lookup?key=${GOOGLE_PLACES_API_KEY}&location.latitude=${lat}&location.longitude=${lng}&unitsSystem=${unitsSystem}`;
-  
-  const weatherResponse = await fetch(weatherUrl);
-
-  if (!weatherResponse.ok) {
-    const errorText = await weatherResponse.text();
-    throw new Error(`Google Weather API error (${weatherResponse.status}): ${errorText}`);
-  }
-
-  const weatherData: any = await weatherResponse.json();
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          data: weatherData,
-        }, null, 2),
-      },
-    ],
-  };
+/**
+ * Per-request context from the HTTP layer.
+ */
+interface RequestContext {
+  principal?: Principal;
+  sessions: SessionStore;
+  // Set by initialize for new sessions; resolved from Mcp-Session-Id otherwise
+  session?: Session;
 }
 
-async function handleGetElevation(args: any) {
-  const { locations } = args;
-  console.error(`[DEBUG] Getting elevation for ${locations.length} location(s)`);
-
-  const locationsParam = locations.map((loc: any) => `${loc.lat},${loc.lng}`).join('|');
-  const elevationUrl = `https://maps.googleapis.com/maps/api/elevation/json?locations=${encodeURIComponent(locationsParam)}&key=${GOOGLE_PLACES_API_KEY}`;
-  
-  const response = await fetch(elevationUrl);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Elevation API error (${response.status}): ${errorText}`);
-  }
-
-  const data: any = await response.json();
-
-  if (data.status !== 'OK') {
-    throw new Error(`Elevation API error: ${data.status}`);
+/**
+ * Tool context that sends progress and log notifications on the session's GET stream.
+ * Progress is only reported when the request carried a progressToken.
+ */
+function createToolContext(session: Session | undefined, progressToken: string | number | undefined): ToolContext {
+  if (!session) {
+    return NOOP_TOOL_CONTEXT;
   }
-
-  const results = data.results.map((result: any) => ({
-    elevation: result.elevation,
-    location: {
-      lat: result.location.lat,
-      lng: result.location.lng,
-    },
-  }));
-
   return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          count: results.length,
-          results: results,
-        }, null, 2),
-      },
-    ],
-  };
-}
-
-// Tool definitions
-const TOOLS = [
-  {
-    name: 'search_places',
-    description: 'Search for places using text query to get suggestions with Google Place IDs.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query (e.g., "Starbucks near Seattle")',
-        },
-        location: {
-          type: 'object',
-          description: 'Optional location bias {lat: number, lng: number}',
-          properties: {
-            lat: { type: 'number' },
-            lng: { type: 'number' },
-          },
-        },
-        radius: {
-          type: 'number',
-          description: 'Search radius in meters (default: 5000, max: 50000)',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'get_place_details',
-    description: 'Get detailed information about a specific place using its Google Place ID.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        place_id: {
-          type: 'string',
-          description: 'Google Place ID from search results',
-        },
-      },
-      required: ['place_id'],
-    },
-  },
-  {
-    name: 'get_weather',
-    description: 'Get current weather conditions for a location.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        location: {
-          type: 'object',
-          description: 'Location coordinates {lat: number, lng: number}',
-          properties: {
-            lat: { type: 'number' },
-            lng: { type: 'number' },
-          },
-          required: ['lat', 'lng'],
-        },
-        units: {
-          type: 'string',
-          description: 'Temperature units: "metric", "imperial", or "standard". Default: metric',
-          enum: ['metric', 'imperial', 'standard'],
-        },
-      },
-      required: ['location'],
-    },
-  },
-  {
-    name: 'get_elevation',
-    description: 'Get elevation data for one or more locations.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        locations: {
-          type: 'array',
-          description: 'Array of location coordinates [{lat: number, lng: number}]',
-          items: {
-            type: 'object',
-            properties: {
-              lat: { type: 'number' },
-              lng: { type: 'number' },
-            },
-            required: ['lat', 'lng'],
-          },
-        },
-      },
-      required: ['locations'],
-    },
-  },
-  {
-    name: 'geocode_address',
-    description: 'Convert a human-readable address or place name to lat/lng coordinates. Use before calling get_weather or get_directions when you have an address instead of coordinates.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        address: {
-          type: 'string',
-          description: 'Address or place name to geocode (e.g., "Microsoft India, Hyderabad" or "Eiffel Tower, Paris")',
-        },
-      },
-      required: ['address'],
+    progress: (progress, total, message) => {
+      if (progressToken === undefined) {
+        return;
+      }
+      session.events.send({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message },
+      });
     },
-  },
-  {
-    name: 'get_directions',
-    description: 'Get directions and travel time between two locations. Supports driving, walking, transit, and bicycling modes. Use for commute time estimation during daily planning.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        origin: {
-          type: 'object',
-          description: 'Starting location. Provide either place_id or lat/lng coordinates.',
-          properties: {
-            place_id: { type: 'string', description: 'Google Place ID' },
-            lat: { type: 'number' },
-            lng: { type: 'number' },
-          },
-        },
-        destination: {
-          type: 'object',
-          description: 'Ending location. Provide either place_id or lat/lng coordinates.',
-          properties: {
-            place_id: { type: 'string', description: 'Google Place ID' },
-            lat: { type: 'number' },
-            lng: { type: 'number' },
-          },
-        },
-        mode: {
-          type: 'string',
-          description: 'Travel mode (default: driving)',
-          enum: ['driving', 'transit', 'walking', 'bicycling'],
-        },
-        departure_time: {
-          type: 'string',
-          description: 'Departure time for traffic-aware duration. Use "now" for current conditions, or a Unix timestamp string. Only applies to driving and transit.',
-        },
-      },
-      required: ['origin', 'destination'],
+    log: (level, data) => {
+      if (!isLogLevelEnabled(level, session.logLevel)) {
+        return;
+      }
+      session.events.send({
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params: { level, logger: 'googleplaces-mcp-server', data },
+      });
     },
-  },
-];
-
-async function handleGeocodeAddress(args: any) {
-  const { address } = args;
-  console.error(`[DEBUG] Geocoding address: "${address}"`);
-
-  const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${GOOGLE_PLACES_API_KEY!}`;
-  const response = await fetch(url);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Geocoding API error (${response.status}): ${errorText}`);
-  }
-
-  const data: any = await response.json();
-
-  if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
-    throw new Error(`Geocoding API error: ${data.status}`);
-  }
-
-  const results = (data.results || []).slice(0, 3).map((r: any) => ({
-    formatted_address: r.formatted_address,
-    lat: r.geometry.location.lat,
-    lng: r.geometry.location.lng,
-    place_id: r.place_id,
-    types: r.types,
-  }));
-
-  return {
-    content: [{
-      type: 'text',
-      text: JSON.stringify({ success: true, address, count: results.length, results }, null, 2),
-    }],
-  };
-}
-
-const ROUTES_TRAVEL_MODE: Record<string, string> = {
-  driving: 'DRIVE',
-  walking: 'WALK',
-  transit: 'TRANSIT',
-  bicycling: 'BICYCLE',
-};
-
-function buildRoutesWaypoint(loc: any): any {
-  if (loc.place_id) return { placeId: loc.place_id };
-  if (loc.lat !== undefined && loc.lng !== undefined) {
-    return { location: { latLng: { latitude: loc.lat, longitude: loc.lng } } };
-  }
-  throw new Error('Location must have place_id or lat/lng');
-}
-
-function parseDuration(durationStr: string): { value: number; text: string } {
-  const seconds = parseInt(durationStr.replace('s', ''), 10) || 0;
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.round((seconds % 3600) / 60);
-  const text = hours > 0 ? `${hours} hr ${minutes} min` : `${minutes} min`;
-  return { value: seconds, text };
-}
-
-async function handleGetDirections(args: any) {
-  const { origin, destination, mode = 'driving', departure_time } = args;
-  const travelMode = ROUTES_TRAVEL_MODE[mode] || 'DRIVE';
-  console.error(`[DEBUG] Getting directions mode=${travelMode} from ${JSON.stringify(origin)} to ${JSON.stringify(destination)}`);
-
-  const body: any = {
-    origin: buildRoutesWaypoint(origin),
-    destination: buildRoutesWaypoint(destination),
-    travelMode,
-  };
-
-  if (travelMode === 'DRIVE') {
-    body.routingPreference = 'TRAFFIC_AWARE';
-  }
-
-  if (departure_time) {
-    const ts = parseInt(departure_time, 10);
-    body.departureTime = departure_time === 'now'
-      ? new Date().toISOString()
-      : isNaN(ts) ? departure_time : new Date(ts * 1000).toISOString();
-  }
-
-  const fieldMask = [
-    'routes.duration',
-    'routes.distanceMeters',
-    'routes.description',
-    'routes.legs.duration',
-    'routes.legs.distanceMeters',
-    'routes.legs.steps.navigationInstruction',
-    'routes.legs.steps.distanceMeters',
-    'routes.legs.steps.staticDuration',
-    'routes.legs.steps.transitDetails',
-    'routes.legs.steps.travelMode',
-  ].join(',');
-
-  const response = await fetch('https://routes.googleapis.com/directions/v2:computeRoutes', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Goog-Api-Key': GOOGLE_PLACES_API_KEY!,
-      'X-Goog-FieldMask': fieldMask,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Routes API error (${response.status}): ${errorText}`);
-  }
-
-  const data: any = await response.json();
-
-  if (!data.routes || data.routes.length === 0) {
-    throw new Error('No routes found');
-  }
-
-  const route = data.routes[0];
-  const leg = route.legs?.[0];
-
-  const duration = parseDuration(route.duration || '0s');
-  const distanceKm = route.distanceMeters ? `${(route.distanceMeters / 1000).toFixed(1)} km` : null;
-
-  const steps = (leg?.steps || []).map((step: any) => {
-    const s: any = {
-      mode: step.travelMode,
-      duration: step.staticDuration ? parseDuration(step.staticDuration).text : null,
-      distance: step.distanceMeters ? `${(step.distanceMeters / 1000).toFixed(1)} km` : null,
-      instruction: step.navigationInstruction?.instructions,
-    };
-    if (step.transitDetails) {
-      const td = step.transitDetails;
-      s.transit = {
-        line: td.transitLine?.nameShort || td.transitLine?.name,
-        departure_stop: td.stopDetails?.departureStop?.name,
-        arrival_stop: td.stopDetails?.arrivalStop?.name,
-        num_stops: td.stopCount,
-      };
-    }
-    return s;
-  });
-
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({
-          success: true,
-          mode,
-          duration,
-          distance: {
-            value: route.distanceMeters,
-            text: distanceKm,
-          },
-          summary: route.description,
-          steps,
-        }, null, 2),
-      },
-    ],
   };
 }
 
 /**
  * Handle a single MCP JSON-RPC request.
  */
-async function handleMcpRequest(requestData: any): Promise<any> {
+async function handleMcpRequest(requestData: any, context: RequestContext): Promise<any> {
   const method = requestData.method;
   const params = requestData.params || {};
   const requestId = requestData.id;
 
   try {
     if (method === 'initialize') {
+      context.session = context.sessions.create({
+        protocolVersion: negotiateProtocolVersion(params.protocolVersion),
+        clientInfo: params.clientInfo,
+        clientCapabilities: params.capabilities || {},
+        principalId: context.principal?.id,
+      });
       const result = {
-        protocolVersion: '2024-11-05',
-        capabilities: {
-          tools: {},
-        },
-        serverInfo: {
-          name: 'googleplaces-mcp-server',
-          version: '1.0.0',
-        },
+        protocolVersion: context.session.protocolVersion,
+        capabilities: SERVER_CAPABILITIES,
+        serverInfo: SERVER_INFO,
       };
       return createSuccessResponse(requestId, result);
     } else if (method === 'ping') {
-      return null;
+      return createSuccessResponse(requestId, {});
     } else if (method === 'tools/list') {
-      return createSuccessResponse(requestId, { tools: TOOLS });
+      const tools = listTools(context.session?.protocolVersion).filter((tool) => hasToolScope(context.principal, tool.name));
+      return createSuccessResponse(requestId, { tools });
     } else if (method === 'tools/call') {
       const toolName = params.name;
       const toolArgs = params.arguments || {};
@@ -539,25 +117,31 @@ async function handleMcpRequest(requestData: any): Promise<any> {
         return createErrorResponse(requestId, JsonRpcError.INVALID_PARAMS, 'Missing tool name');
       }
 
-      let result;
-      if (toolName === 'search_places') {
-        result = await handleSearchPlaces(toolArgs);
-      } else if (toolName === 'geocode_address') {
-        result = await handleGeocodeAddress(toolArgs);
-      } else if (toolName === 'get_place_details') {
-        result = await handleGetPlaceDetails(toolArgs);
-      } else if (toolName === 'get_weather') {
-        result = await handleGetWeather(toolArgs);
-      } else if (toolName === 'get_elevation') {
-        result = await handleGetElevation(toolArgs);
-      } else if (toolName === 'get_directions') {
-        result = await handleGetDirections(toolArgs);
-      } else {
+      if (!getTool(toolName)) {
         return createErrorResponse(requestId, JsonRpcError.METHOD_NOT_FOUND, `Unknown tool: ${toolName}`);
       }
 
+      const issues = validateToolArguments(toolName, toolArgs);
+      if (issues.length > 0) {
+        return createErrorResponse(requestId, JsonRpcError.INVALID_PARAMS, formatValidationIssues(toolName, issues), { errors: issues });
+      }
+
+      const toolContext = createToolContext(context.session, params._meta?.progressToken);
+      const result = await callTool(toolName, toolArgs, toolContext, context.session?.protocolVersion);
+
       return createSuccessResponse(requestId, result);
+    } else if (method === 'logging/setLevel') {
+      if (!LOG_LEVELS.includes(params.level)) {
+        return createErrorResponse(requestId, JsonRpcError.INVALID_PARAMS, `Invalid log level: ${params.level}`);
+      }
+      if (context.session) {
+        context.session.logLevel = params.level as LogLevel;
+      }
+      return createSuccessResponse(requestId, {});
     } else if (method === 'notifications/initialized') {
+      if (context.session) {
+        context.session.initialized = true;
+      }
       return null;
     } else {
       return createErrorResponse(requestId, JsonRpcError.METHOD_NOT_FOUND, `Unknown method: ${method}`);
@@ -569,6 +153,61 @@ async function handleMcpRequest(requestData: any): Promise<any> {
   }
 }
 
+/**
+ * Whether the client asked for the response as an SSE stream.
+ */
+function acceptsEventStream(req: Request): boolean {
+  return (req.get('Accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Send a JSON-RPC response (or batch response array) as JSON, or as an SSE
+ * event when the client accepts text/event-stream.
+ */
+function sendJsonRpc(req: Request, res: Response, payload: any) {
+  if (acceptsEventStream(req)) {
+    res.status(200).set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    return res.end(formatSseEvent(payload));
+  }
+  res.json(payload);
+}
+
+/**
+ * Resolve the live session named by the Mcp-Session-Id header. Sends 400 when
+ * the header is missing or MCP-Protocol-Version contradicts the version
+ * negotiated for the session, and 404 when the session is unknown or expired.
+ */
+function requireSession(req: Request, res: Response, sessions: SessionStore, principal: Principal | undefined, requestId: any): Session | undefined {
+  const sessionId = req.get(SESSION_HEADER);
+  if (!sessionId) {
+    res.status(400).json(
+      createErrorResponse(requestId, JsonRpcError.INVALID_REQUEST, `Missing ${SESSION_HEADER} header; call initialize first`)
+    );
+    return undefined;
+  }
+
+  const session = sessions.touch(sessionId, principal?.id);
+  if (!session) {
+    res.status(404).json(
+      createErrorResponse(requestId, JsonRpcError.SESSION_NOT_FOUND, 'Session not found or expired; call initialize to start a new session')
+    );
+    return undefined;
+  }
+
+  const headerVersion = req.get('MCP-Protocol-Version');
+  if (headerVersion && headerVersion !== session.protocolVersion) {
+    res.status(400).json(
+      createErrorResponse(
+        requestId,
+        JsonRpcError.INVALID_REQUEST,
+        `MCP-Protocol-Version ${headerVersion} does not match the version negotiated for this session (${session.protocolVersion})`
+      )
+    );
+    return undefined;
+  }
+  return session;
+}
+
 /**
  * Create and run the HTTP transport server.
  */
@@ -576,8 +215,115 @@ export function createHttpServer(port: number = 3000): Express {
   const app = express();
   app.use(express.json());
 
+  const rateLimiter = new RateLimiter(loadRateLimitConfig());
+  const sessions = new SessionStore();
+  const authConfig = loadAuthConfig();
+  const authenticate = createAuthMiddleware(authConfig);
+  if (!authConfig.enabled) {
+    console.error('[DEBUG] MCP_AUTH_TOKENS_FILE not set: /mcp is unauthenticated');
+  }
+
+  /**
+   * Per-message access checks for tools/call: token scope, then the client's
+   * rate limit for that tool. Returns the rejection to send, or null.
+   * Calls to unknown tools or with invalid arguments skip the rate limit and
+   * are left for dispatch to reject, so they use no quota and add no
+   * limiter entries.
+   */
+  function checkToolCall(req: Request, message: any, principal: Principal | undefined): Rejection | null {
+    if (message.method !== 'tools/call' || typeof message.params?.name !== 'string') {
+      return null;
+    }
+    const toolName = message.params.name;
+    const requestId = requestIdOf(message);
+
+    const scopeFailure = checkToolScope(principal, toolName, requestId);
+    if (scopeFailure) {
+      return {
+        status: scopeFailure.status,
+        headers: { 'WWW-Authenticate': scopeFailure.challenge },
+        response: scopeFailure.response,
+      };
+    }
+
+    if (!getTool(toolName) || validateToolArguments(toolName, message.params.arguments).length > 0) {
+      return null;
+    }
+
+    const denial = rateLimiter.check(clientIdentity(req, principal?.id), toolName);
+    if (denial) {
+      return {
+        status: 429,
+        headers: { 'Retry-After': String(denial.retryAfterSeconds) },
+        response: createErrorResponse(
+          requestId,
+          denial.reason === 'quota_exceeded' ? JsonRpcError.QUOTA_EXCEEDED : JsonRpcError.RATE_LIMITED,
+          denial.message,
+          { reason: denial.reason, retry_after_seconds: denial.retryAfterSeconds, limit: denial.limit }
+        ),
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Handle a JSON-RPC batch: members run concurrently (up to BATCH_CONCURRENCY),
+   * invalid members get their own error, and notifications produce no entry.
+   */
+  async function handleBatch(req: Request, res: Response, batch: any[], principal: Principal | undefined) {
+    if (batch.length === 0) {
+      return res.status(400).json(createErrorResponse(null, JsonRpcError.INVALID_REQUEST, 'Empty batch'));
+    }
+    if (batch.length > MAX_BATCH_SIZE) {
+      return res.status(400).json(
+        createErrorResponse(null, JsonRpcError.INVALID_REQUEST, `Batch too large: ${batch.length} messages (max ${MAX_BATCH_SIZE})`)
+      );
+    }
+
+    // initialize cannot be batched, so a batch always belongs to an existing session
+    const session = requireSession(req, res, sessions, principal, null);
+    if (!session) {
+      return;
+    }
+    const context: RequestContext = { principal, sessions, session };
+    let retryAfterSeconds = 0;
+
+    const responses = await mapWithConcurrency(batch, BATCH_CONCURRENCY, async (message) => {
+      if (!isValidJsonRpc(message)) {
+        return createErrorResponse(requestIdOf(message), JsonRpcError.INVALID_REQUEST, 'Invalid JSON-RPC request');
+      }
+      if (message.method === 'initialize') {
+        return createErrorResponse(requestIdOf(message), JsonRpcError.INVALID_REQUEST, 'initialize must not be part of a batch');
+      }
+
+      const rejection = checkToolCall(req, message, principal);
+      if (rejection) {
+        const retryAfter = parseInt(rejection.headers['Retry-After'] || '0', 10);
+        retryAfterSeconds = Math.max(retryAfterSeconds, retryAfter);
+        return isNotification(message) ? null : rejection.response;
+      }
+
+      const response = await handleMcpRequest(message, context).catch((error) => {
+        console.error('[DEBUG] Unhandled error in batch:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(requestIdOf(message), JsonRpcError.INTERNAL_ERROR, errorMessage);
+      });
+      return isNotification(message) ? null : response;
+    });
+
+    const results = responses.filter((response) => response !== null);
+    if (results.length === 0) {
+      return res.status(202).send();
+    }
+    if (retryAfterSeconds > 0) {
+      res.set('Retry-After', String(retryAfterSeconds));
+    }
+    sendJsonRpc(req, res, results);
+  }
+
   // POST /mcp - Main MCP endpoint
-  app.post('/mcp', async (req: Request, res: Response) => {
+  app.post('/mcp', authenticate, async (req: Request, res: Response) => {
+    const principal: Principal | undefined = res.locals.principal;
     const mcpProtocolVersion = req.get('MCP-Protocol-Version');
 
     // Validate protocol version if provided
@@ -593,53 +339,97 @@ export function createHttpServer(port: number = 3000): Express {
 
     const body = req.body;
 
+    if (isBatch(body)) {
+      return handleBatch(req, res, body, principal);
+    }
+
     // Validate JSON-RPC structure
     if (!isValidJsonRpc(body)) {
       return res.status(400).json(
-        createErrorResponse(body?.id, JsonRpcError.INVALID_REQUEST, 'Invalid JSON-RPC request')
+        createErrorResponse(requestIdOf(body), JsonRpcError.INVALID_REQUEST, 'Invalid JSON-RPC request')
       );
     }
 
+    // Every request except initialize belongs to a session
+    const context: RequestContext = { principal, sessions };
+    if (body.method !== 'initialize') {
+      context.session = requireSession(req, res, sessions, principal, requestIdOf(body));
+      if (!context.session) {
+        return;
+      }
+    }
+
+    // Enforce token scopes, then rate limit tool calls per client and tool
+    const rejection = checkToolCall(req, body, principal);
+    if (rejection) {
+      return res.status(rejection.status).set(rejection.headers).json(rejection.response);
+    }
+
     // Check if notification
     if (isNotification(body)) {
-      handleMcpRequest(body).catch((error) => {
+      handleMcpRequest(body, context).catch((error) => {
         console.error('[DEBUG] Error handling notification:', error);
       });
       return res.status(202).send();
     }
 
     // Handle request
-    const response = await handleMcpRequest(body);
+    let response: any;
+    try {
+      response = await handleMcpRequest(body, context);
+    } catch (error) {
+      console.error('[DEBUG] Unhandled error:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (acceptsEventStream(req)) {
+        res.status(200).set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+        return res.end(formatSseError(requestIdOf(body), JsonRpcError.INTERNAL_ERROR, message));
+      }
+      return res.status(500).json(createErrorResponse(requestIdOf(body), JsonRpcError.INTERNAL_ERROR, message));
+    }
+
+    if (body.method === 'initialize' && context.session) {
+      res.set(SESSION_HEADER, context.session.id);
+    }
 
     if (!response) {
       return res.status(202).send();
     }
 
-    res.json(response);
+    sendJsonRpc(req, res, response);
   });
 
   // GET /mcp - Optional SSE stream
-  app.get('/mcp', (req: Request, res: Response) => {
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-
-    // Keep alive with periodic comments
-    const interval = setInterval(() => {
-      res.write(': keepalive\n\n');
-    }, 30000);
-
-    req.on('close', () => {
-      clearInterval(interval);
-      res.end();
+  app.get('/mcp', authenticate, (req: Request, res: Response) => {
+    const session = requireSession(req, res, sessions, res.locals.principal, null);
+    if (!session) {
+      return;
+    }
+
+    session.events.attach(res, req.get('Last-Event-ID')).catch((error) => {
+      console.error('[DEBUG] Error attaching event stream:', error);
     });
   });
 
+  // DELETE /mcp - End a session
+  app.delete('/mcp', authenticate, (req: Request, res: Response) => {
+    const session = requireSession(req, res, sessions, res.locals.principal, null);
+    if (!session) {
+      return;
+    }
+    sessions.delete(session.id);
+    res.status(204).send();
+  });
+
   // Health check endpoint
   app.get('/healthz', (req: Request, res: Response) => {
+    const upstream = circuitBreakerStates();
+    const degraded = Object.values(upstream).some((breaker: any) => breaker.state !== 'closed');
     res.json({
-      status: 'healthy',
+      status: degraded ? 'degraded' : 'healthy',
       app: 'initialized',
+      sessions: sessions.size,
+      cache: responseCache.stats(),
+      upstream,
     });
   });
 
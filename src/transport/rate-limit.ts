@@ -0,0 +1,181 @@
+/**
+ * Per-client rate limiting and daily quotas for tools/call on the HTTP transport.
+ *
+ * Each (client, tool) pair has a token bucket (burst + steady refill) and an
+ * optional daily call quota, resetting at UTC midnight. Clients are keyed by
+ * token ID when auth has verified their bearer token, otherwise by IP address.
+ * At most RATE_LIMIT_MAX_CLIENTS (default 10000) buckets are kept; past that
+ * the least recently used is dropped.
+ *
+ * Configured with RATE_LIMITS (inline JSON) or RATE_LIMITS_FILE (path to JSON):
+ *
+ *   {
+ *     "default": { "burst": 30, "perMinute": 30, "dailyQuota": 5000 },
+ *     "tools": { "get_directions": { "burst": 5, "perMinute": 5, "dailyQuota": 200 } }
+ *   }
+ *
+ * RATE_LIMITS_DISABLED=1 turns limiting off.
+ */
+
+import { readFileSync } from 'fs';
+import { Request } from 'express';
+
+export interface ToolLimit {
+  burst: number;
+  perMinute: number;
+  dailyQuota?: number;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  default: ToolLimit;
+  tools: Record<string, ToolLimit>;
+}
+
+export interface RateLimitDenial {
+  reason: 'rate_limited' | 'quota_exceeded';
+  message: string;
+  retryAfterSeconds: number;
+  limit: ToolLimit;
+}
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+  enabled: true,
+  default: { burst: 30, perMinute: 60, dailyQuota: 5000 },
+  tools: {
+    get_directions: { burst: 5, perMinute: 10, dailyQuota: 500 },
+  },
+};
+
+const DEFAULT_MAX_CLIENTS = 10000;
+
+interface ClientState {
+  tokens: number;
+  refilledAt: number;
+  day: string;
+  callsToday: number;
+}
+
+function validateLimit(name: string, limit: ToolLimit): ToolLimit {
+  if (!(limit.burst >= 1) || !(limit.perMinute > 0)) {
+    throw new Error(`Invalid rate limit for ${name}: burst must be at least 1 and perMinute above 0 (use RATE_LIMITS_DISABLED=1 to turn limiting off)`);
+  }
+  return limit;
+}
+
+/**
+ * Read rate limit config from the environment, falling back to defaults.
+ */
+export function loadRateLimitConfig(): RateLimitConfig {
+  const disabled = process.env.RATE_LIMITS_DISABLED === '1' || process.env.RATE_LIMITS_DISABLED === 'true';
+  let raw = process.env.RATE_LIMITS;
+  if (!raw && process.env.RATE_LIMITS_FILE) {
+    raw = readFileSync(process.env.RATE_LIMITS_FILE, 'utf8');
+  }
+  const parsed = raw ? JSON.parse(raw) : {};
+  const defaultLimit = validateLimit('default', { ...DEFAULT_CONFIG.default, ...parsed.default });
+
+  // Tool entries only need the fields they change
+  const tools: Record<string, ToolLimit> = {};
+  for (const [tool, limit] of Object.entries({ ...DEFAULT_CONFIG.tools, ...parsed.tools })) {
+    tools[tool] = validateLimit(tool, { ...defaultLimit, ...(limit as Partial<ToolLimit>) });
+  }
+
+  return { enabled: !disabled, default: defaultLimit, tools };
+}
+
+/**
+ * Identity used to key limits: the authenticated token ID, or the client IP.
+ * Unverified bearer tokens are ignored, since a client could send a new one
+ * on every request.
+ */
+export function clientIdentity(req: Request, principalId?: string): string {
+  return principalId ? `principal:${principalId}` : `ip:${req.ip}`;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().substring(0, 10);
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+export class RateLimiter {
+  // In least recently used order: check() moves a bucket to the end
+  private clients = new Map<string, ClientState>();
+
+  constructor(
+    private config: RateLimitConfig,
+    private maxClients: number = parseInt(process.env.RATE_LIMIT_MAX_CLIENTS || '', 10) || DEFAULT_MAX_CLIENTS,
+  ) {}
+
+  limitFor(toolName: string): ToolLimit {
+    return this.config.tools[toolName] || this.config.default;
+  }
+
+  /**
+   * Take one call from the client's bucket for this tool; returns a denial when over limit.
+   */
+  check(clientId: string, toolName: string): RateLimitDenial | null {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const now = Date.now();
+    const limit = this.limitFor(toolName);
+    const key = `${clientId}:${toolName}`;
+    const today = utcDay(now);
+
+    let state = this.clients.get(key);
+    if (state) {
+      this.clients.delete(key);
+    } else {
+      this.evictIfFull();
+      state = { tokens: limit.burst, refilledAt: now, day: today, callsToday: 0 };
+    }
+    this.clients.set(key, state);
+
+    if (state.day !== today) {
+      state.day = today;
+      state.callsToday = 0;
+    }
+
+    if (limit.dailyQuota !== undefined && state.callsToday >= limit.dailyQuota) {
+      return {
+        reason: 'quota_exceeded',
+        message: `Daily quota of ${limit.dailyQuota} calls to ${toolName} exceeded`,
+        retryAfterSeconds: secondsUntilUtcMidnight(now),
+        limit,
+      };
+    }
+
+    const refillPerMs = limit.perMinute / 60000;
+    state.tokens = Math.min(limit.burst, state.tokens + (now - state.refilledAt) * refillPerMs);
+    state.refilledAt = now;
+
+    if (state.tokens < 1) {
+      return {
+        reason: 'rate_limited',
+        message: `Rate limit for ${toolName} exceeded (${limit.perMinute}/min, burst ${limit.burst})`,
+        retryAfterSeconds: Math.max(1, Math.ceil((1 - state.tokens) / refillPerMs / 1000)),
+        limit,
+      };
+    }
+
+    state.tokens -= 1;
+    state.callsToday++;
+    return null;
+  }
+
+  /**
+   * Drop the least recently used buckets to make room for a new one.
+   */
+  private evictIfFull(): void {
+    while (this.clients.size >= this.maxClients) {
+      this.clients.delete(this.clients.keys().next().value!);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Mcp-Session-Id session lifecycle for the Streamable HTTP transport.
+ *
+ * - initialize creates a session; its ID is returned in the Mcp-Session-Id header
+ * - every later request must carry that header (400 if missing, 404 if unknown or expired)
+ * - DELETE /mcp ends a session
+ * - sessions idle for longer than MCP_SESSION_TTL_MS (default 30 minutes) expire;
+ *   an open GET /mcp stream keeps a session active
+ * - at most MCP_MAX_SESSIONS (default 1000) exist; creating one more ends the
+ *   least recently used
+ *
+ * A session is bound to the principal that created it, so another token
+ * cannot use a leaked session ID.
+ */
+
+import { randomUUID } from 'crypto';
+import { SessionEventStream } from './event-stream.js';
+import { LogLevel, DEFAULT_LOG_LEVEL } from '../tools/common.js';
+
+export const SESSION_HEADER = 'Mcp-Session-Id';
+
+export interface Session {
+  id: string;
+  createdAt: number;
+  lastSeenAt: number;
+  protocolVersion: string;
+  clientInfo?: { name?: string; version?: string; [key: string]: any };
+  clientCapabilities: any;
+  initialized: boolean;
+  principalId?: string;
+  // Minimum level for notifications/message, set with logging/setLevel
+  logLevel: LogLevel;
+  events: SessionEventStream;
+}
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 1000;
+
+export class SessionStore {
+  // In least recently used order: touch() moves a session to the end
+  private sessions = new Map<string, Session>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(
+    private ttlMs: number = parseInt(process.env.MCP_SESSION_TTL_MS || '', 10) || DEFAULT_TTL_MS,
+    private maxSessions: number = parseInt(process.env.MCP_MAX_SESSIONS || '', 10) || DEFAULT_MAX_SESSIONS,
+  ) {
+    this.sweepTimer = setInterval(() => this.sweep(), Math.min(this.ttlMs, 60000));
+    this.sweepTimer.unref();
+  }
+
+  create(fields: Pick<Session, 'protocolVersion' | 'clientInfo' | 'clientCapabilities' | 'principalId'>): Session {
+    const now = Date.now();
+    const session: Session = {
+      id: randomUUID(),
+      createdAt: now,
+      lastSeenAt: now,
+      initialized: false,
+      logLevel: DEFAULT_LOG_LEVEL,
+      events: new SessionEventStream(),
+      ...fields,
+    };
+    while (this.sessions.size >= this.maxSessions) {
+      const oldest = this.sessions.keys().next().value!;
+      console.error(`[DEBUG] Session limit (${this.maxSessions}) reached; ending least recently used session ${oldest}`);
+      this.delete(oldest);
+    }
+    this.sessions.set(session.id, session);
+    console.error(`[DEBUG] Session ${session.id} created for ${session.clientInfo?.name || 'unknown client'}`);
+    return session;
+  }
+
+  /**
+   * Look up a live session for this principal and refresh its idle timer.
+   * Returns undefined for unknown, expired or foreign sessions.
+   */
+  touch(id: string, principalId?: string): Session | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+    if (this.isExpired(session, Date.now())) {
+      this.delete(id);
+      return undefined;
+    }
+    if (session.principalId !== principalId) {
+      return undefined;
+    }
+    session.lastSeenAt = Date.now();
+    this.sessions.delete(id);
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  delete(id: string): boolean {
+    const session = this.sessions.get(id);
+    const deleted = this.sessions.delete(id);
+    session?.events.detach();
+    if (deleted) {
+      console.error(`[DEBUG] Session ${id} ended`);
+    }
+    return deleted;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  private isExpired(session: Session, now: number): boolean {
+    // A live stream counts as activity; idle time starts once it closes
+    if (session.events.connected) {
+      session.lastSeenAt = now;
+      return false;
+    }
+    return now - session.lastSeenAt > this.ttlMs;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const session of this.sessions.values()) {
+      if (this.isExpired(session, now)) {
+        this.delete(session.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Per-API circuit breaker for Google upstream calls.
+ *
+ * closed    -> calls flow; consecutive failures are counted
+ * open      -> calls fail fast until the cool-down window has passed
+ * half_open -> one trial call is let through; success closes, failure re-opens
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastFailure: string | null = null;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a call may proceed now. Moves open -> half_open once the cool-down has passed.
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'open') {
+      return false;
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /**
+   * Whether calls are failing fast right now. Unlike allowRequest() this never
+   * takes the half-open trial slot.
+   */
+  isOpen(): boolean {
+    return this.state === 'open' && this.retryAfterMs() > 0;
+  }
+
+  /**
+   * Milliseconds until the breaker will let a trial call through.
+   */
+  retryAfterMs(): number {
+    return Math.max(0, this.openedAt + this.options.cooldownMs - Date.now());
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(): any {
+    // Report open -> half_open transitions without waiting for the next call
+    const state = this.state === 'open' && this.retryAfterMs() === 0 ? 'half_open' : this.state;
+    return {
+      state,
+      consecutive_failures: this.consecutiveFailures,
+      last_failure: this.lastFailure,
+      retry_after_ms: state === 'open' ? this.retryAfterMs() : 0,
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Shared upstream client for Google API calls.
+ *
+ * - Per-request timeouts (UPSTREAM_TIMEOUT_MS, default 10000)
+ * - Retries on network errors, timeouts, 429 and 5xx with exponential backoff
+ *   and full jitter, honouring Retry-After (UPSTREAM_MAX_RETRIES, default 2;
+ *   UPSTREAM_RETRY_BASE_MS, default 250; UPSTREAM_RETRY_MAX_MS, default 5000).
+ *   A Retry-After longer than UPSTREAM_RETRY_MAX_MS is not retried early: the
+ *   response goes straight back to the caller.
+ * - A circuit breaker per Google API that fails fast after repeated failed
+ *   calls, each counted once its retries are used up
+ *   (CIRCUIT_FAILURE_THRESHOLD, default 5; CIRCUIT_COOLDOWN_MS, default 30000)
+ *
+ * Non-retryable responses (e.g. 400, 403, 404) are returned to the caller,
+ * which classifies them with upstreamErrorFromResponse.
+ */
+
+import { CircuitBreaker } from './circuit-breaker.js';
+import { UpstreamApi, UpstreamError } from '../utils/errors.js';
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+const TIMEOUT_MS = envInt('UPSTREAM_TIMEOUT_MS', 10000);
+const MAX_RETRIES = envInt('UPSTREAM_MAX_RETRIES', 2);
+const RETRY_BASE_MS = envInt('UPSTREAM_RETRY_BASE_MS', 250);
+const RETRY_MAX_MS = envInt('UPSTREAM_RETRY_MAX_MS', 5000);
+const FAILURE_THRESHOLD = envInt('CIRCUIT_FAILURE_THRESHOLD', 5);
+const COOLDOWN_MS = envInt('CIRCUIT_COOLDOWN_MS', 30000);
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+const breakers = new Map<UpstreamApi, CircuitBreaker>();
+
+function breakerFor(api: UpstreamApi): CircuitBreaker {
+  let breaker = breakers.get(api);
+  if (!breaker) {
+    breaker = new CircuitBreaker({ failureThreshold: FAILURE_THRESHOLD, cooldownMs: COOLDOWN_MS });
+    breakers.set(api, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Circuit breaker state per API, for the health endpoint.
+ */
+export function circuitBreakerStates(): Record<string, any> {
+  const states: Record<string, any> = {};
+  for (const [api, breaker] of breakers) {
+    states[api] = breaker.snapshot();
+  }
+  return states;
+}
+
+/**
+ * Parse Retry-After (delta seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number, retryAfterMs: number | null): number {
+  if (retryAfterMs !== null) {
+    return retryAfterMs;
+  }
+  const ceiling = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * fetch() with timeout, retries and the API's circuit breaker applied. The
+ * retries belong to one admitted call, so the breaker records a single
+ * success or failure per call.
+ */
+export async function upstreamFetch(api: UpstreamApi, url: string, init: RequestInit = {}): Promise<Response> {
+  const breaker = breakerFor(api);
+
+  if (!breaker.allowRequest()) {
+    const retryInSeconds = Math.ceil(breaker.retryAfterMs() / 1000);
+    throw new UpstreamError('CIRCUIT_OPEN', api, `Too many recent failures; calls are paused for ${retryInSeconds}s`);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    let failure: string;
+    let retryAfterMs: number | null = null;
+    let response: Response | undefined;
+
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(TIMEOUT_MS) });
+      if (!RETRYABLE_STATUSES.has(response.status)) {
+        breaker.recordSuccess();
+        return response;
+      }
+      failure = `HTTP ${response.status}`;
+      retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    } catch (error: any) {
+      failure = error?.name === 'TimeoutError'
+        ? `timed out after ${TIMEOUT_MS}ms`
+        : error?.cause?.code || error?.message || String(error);
+    }
+
+    // Other calls may have opened the breaker meanwhile; the caller still gets this failure
+    if (attempt >= MAX_RETRIES || (retryAfterMs !== null && retryAfterMs > RETRY_MAX_MS) || breaker.isOpen()) {
+      breaker.recordFailure(failure);
+      if (response) {
+        return response;
+      }
+      throw new UpstreamError('UNAVAILABLE', api, `Request failed: ${failure}`);
+    }
+
+    if (response) {
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => undefined);
+    }
+
+    const delay = backoffMs(attempt, retryAfterMs);
+    console.error(`[DEBUG] ${api} upstream ${failure}; retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`);
+    await sleep(delay);
+  }
+}
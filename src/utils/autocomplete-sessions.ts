@@ -0,0 +1,80 @@
+/**
+ * Places Autocomplete session tokens.
+ *
+ * Google bills a run of autocomplete requests followed by one Place Details
+ * call as a single session when they share a session token. The server
+ * creates the tokens itself, so clients only echo them back:
+ *
+ * - autocomplete_places starts a session, or continues the one it is given
+ * - get_place_details with that token closes it
+ * - sessions idle for longer than PLACES_SESSION_TTL_MS (default 3 minutes) expire
+ */
+
+import { randomUUID } from 'crypto';
+
+export interface AutocompleteSession {
+  token: string;
+  createdAt: number;
+  lastUsedAt: number;
+  requests: number;
+}
+
+const DEFAULT_TTL_MS = 3 * 60 * 1000;
+
+export class AutocompleteSessionStore {
+  private sessions = new Map<string, AutocompleteSession>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private ttlMs: number = parseInt(process.env.PLACES_SESSION_TTL_MS || '', 10) || DEFAULT_TTL_MS) {
+    this.sweepTimer = setInterval(() => this.sweep(), Math.min(this.ttlMs, 60000));
+    this.sweepTimer.unref();
+  }
+
+  start(): AutocompleteSession {
+    const now = Date.now();
+    const session: AutocompleteSession = { token: randomUUID(), createdAt: now, lastUsedAt: now, requests: 0 };
+    this.sessions.set(session.token, session);
+    return session;
+  }
+
+  /**
+   * Look up a live session and refresh its idle timer. Returns undefined for
+   * unknown or expired tokens.
+   */
+  touch(token: string): AutocompleteSession | undefined {
+    const session = this.sessions.get(token);
+    if (!session) {
+      return undefined;
+    }
+    if (this.isExpired(session, Date.now())) {
+      this.sessions.delete(token);
+      return undefined;
+    }
+    session.lastUsedAt = Date.now();
+    return session;
+  }
+
+  /**
+   * End a live session; the token cannot be used again afterwards.
+   */
+  close(token: string): AutocompleteSession | undefined {
+    const session = this.touch(token);
+    this.sessions.delete(token);
+    return session;
+  }
+
+  private isExpired(session: AutocompleteSession, now: number): boolean {
+    return now - session.lastUsedAt > this.ttlMs;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const session of this.sessions.values()) {
+      if (this.isExpired(session, now)) {
+        this.sessions.delete(session.token);
+      }
+    }
+  }
+}
+
+export const autocompleteSessions = new AutocompleteSessionStore();
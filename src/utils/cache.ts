@@ -0,0 +1,209 @@
+/**
+ * Response cache for Google lookups.
+ *
+ * - Size-bounded LRU (Map insertion order is recency order)
+ * - Per-tool TTLs, overridable with CACHE_TTLS='{"get_weather": 300}' (seconds)
+ * - Optional persistence to CACHE_FILE so restarts keep the cache
+ * - CACHE_DISABLED=1 turns caching off entirely
+ */
+
+import { readFileSync, writeFileSync, renameSync } from 'fs';
+
+export type CacheStatus = 'hit' | 'miss';
+
+interface CacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Default TTLs per tool; tools not listed here are never cached
+const DEFAULT_TTLS_MS: Record<string, number> = {
+  get_elevation: 365 * DAY,
+  geocode_address: 30 * DAY,
+  reverse_geocode: 30 * DAY,
+  get_timezone: DAY,
+  get_place_details: 6 * HOUR,
+  search_places: HOUR,
+  search_nearby: HOUR,
+  get_weather: 10 * MINUTE,
+  get_weather_forecast: 30 * MINUTE,
+  get_weather_history: 10 * MINUTE,
+  get_air_quality: 30 * MINUTE,
+};
+
+function parseTtlOverrides(raw: string | undefined): Record<string, number> {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    const overrides: Record<string, number> = {};
+    for (const [tool, seconds] of Object.entries(parsed)) {
+      if (typeof seconds === 'number' && seconds >= 0) {
+        overrides[tool] = seconds * 1000;
+      }
+    }
+    return overrides;
+  } catch (error) {
+    console.error('[ERROR] Ignoring invalid CACHE_TTLS:', error);
+    return {};
+  }
+}
+
+/**
+ * Size-bounded LRU cache with per-entry expiry and optional file persistence.
+ */
+export class LruCache {
+  private entries = new Map<string, CacheEntry>();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private maxEntries: number, private filePath?: string) {
+    if (filePath) {
+      this.load();
+      process.on('exit', () => this.saveNow());
+    }
+  }
+
+  get(key: string): any | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: any, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    this.scheduleSave();
+  }
+
+  stats(): { entries: number; max_entries: number; hits: number; misses: number; file: string | null } {
+    return {
+      entries: this.entries.size,
+      max_entries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      file: this.filePath || null,
+    };
+  }
+
+  private load(): void {
+    try {
+      const data = JSON.parse(readFileSync(this.filePath!, 'utf8'));
+      const now = Date.now();
+      for (const [key, entry] of data.entries || []) {
+        if (entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      console.error(`[DEBUG] Loaded ${this.entries.size} cache entries from ${this.filePath}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`[ERROR] Could not load cache file ${this.filePath}:`, error.message);
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => this.saveNow(), 1000);
+    this.saveTimer.unref();
+  }
+
+  private saveNow(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      const tmpPath = `${this.filePath}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify({ version: 1, entries: [...this.entries] }));
+      renameSync(tmpPath, this.filePath);
+    } catch (error: any) {
+      console.error(`[ERROR] Could not write cache file ${this.filePath}:`, error.message);
+    }
+  }
+}
+
+const CACHE_DISABLED = process.env.CACHE_DISABLED === '1' || process.env.CACHE_DISABLED === 'true';
+const TTLS_MS: Record<string, number> = { ...DEFAULT_TTLS_MS, ...parseTtlOverrides(process.env.CACHE_TTLS) };
+
+export const responseCache = new LruCache(
+  parseInt(process.env.CACHE_MAX_ENTRIES || '', 10) || 1000,
+  process.env.CACHE_FILE || undefined,
+);
+
+/**
+ * Stable JSON for cache keys: object keys are sorted so argument order does not matter.
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export interface LookupOptions<T> {
+  // Keep this value for at most this long (ms), or for as long as the
+  // function returns for it; never longer than the tool's TTL
+  maxTtlMs?: number | ((value: T) => number);
+}
+
+/**
+ * Return a cached upstream value for this tool and key, or fetch and cache it.
+ * Failed lookups (thrown errors) are never cached. Returns cache: undefined for
+ * tools without a TTL or when caching is disabled.
+ */
+export async function cachedLookup<T>(
+  toolName: string,
+  keyParts: any,
+  fetcher: () => Promise<T>,
+  options: LookupOptions<T> = {},
+): Promise<{ value: T; cache?: CacheStatus }> {
+  const ttlMs = TTLS_MS[toolName];
+  if (CACHE_DISABLED || !ttlMs) {
+    return { value: await fetcher() };
+  }
+
+  const key = `${toolName}:${stableStringify(keyParts)}`;
+  const cached = responseCache.get(key);
+  if (cached !== undefined) {
+    console.error(`[DEBUG] Cache hit for ${key}`);
+    return { value: cached, cache: 'hit' };
+  }
+
+  const value = await fetcher();
+  const { maxTtlMs } = options;
+  const cap = typeof maxTtlMs === 'function' ? maxTtlMs(value) : maxTtlMs;
+  responseCache.set(key, value, cap === undefined ? ttlMs : Math.min(ttlMs, cap));
+  return { value, cache: 'miss' };
+}
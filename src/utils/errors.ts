@@ -0,0 +1,183 @@
+/**
+ * Structured errors for Google upstream failures.
+ *
+ * Google APIs report failures in two shapes:
+ * - v1 APIs (Places, Weather, Routes): HTTP status + {error: {code, status, message, details}}
+ * - Legacy JSON APIs (Geocoding, Elevation, Time Zone): HTTP 200 + {status, error_message}
+ *
+ * Both are classified into a stable UpstreamErrorCode with a hint the model
+ * can act on, and returned to clients as isError tool results.
+ */
+
+export type UpstreamApi = 'places' | 'weather' | 'geocoding' | 'elevation' | 'routes' | 'timezone' | 'airquality' | 'photos';
+
+export type UpstreamErrorCode =
+  | 'INVALID_ARGUMENT'
+  | 'PERMISSION_DENIED'
+  | 'API_NOT_ENABLED'
+  | 'RESOURCE_EXHAUSTED'
+  | 'ZERO_RESULTS'
+  | 'NOT_FOUND'
+  | 'UNAVAILABLE'
+  | 'CIRCUIT_OPEN'
+  | 'RESPONSE_TOO_LARGE'
+  | 'INVALID_PAGE_TOKEN'
+  | 'PAGE_TOKEN_EXPIRED'
+  | 'UPSTREAM_ERROR';
+
+const API_NAMES: Record<UpstreamApi, string> = {
+  places: 'Places API (New)',
+  weather: 'Weather API',
+  geocoding: 'Geocoding API',
+  elevation: 'Elevation API',
+  routes: 'Routes API',
+  timezone: 'Time Zone API',
+  airquality: 'Air Quality API',
+  photos: 'Place photo image host',
+};
+
+const HINTS: Record<UpstreamErrorCode, string> = {
+  INVALID_ARGUMENT: 'Google rejected the request parameters. Check the arguments and try again with corrected values.',
+  PERMISSION_DENIED: 'The API key is missing, invalid, or not allowed to call this API. Ask the operator to check the key and its API restrictions.',
+  API_NOT_ENABLED: 'This API is not enabled for the Google Cloud project. Ask the operator to enable it in the Cloud Console.',
+  RESOURCE_EXHAUSTED: 'The Google quota or rate limit was exceeded. Wait before retrying, or reduce the number of calls.',
+  ZERO_RESULTS: 'Google found no results for this request. Try a broader query or different locations.',
+  NOT_FOUND: 'The requested resource does not exist.',
+  UNAVAILABLE: 'The Google service is temporarily unavailable. Retry shortly.',
+  CIRCUIT_OPEN: 'Calls to this API are paused after repeated failures. Retry after the cool-down, or continue without this data.',
+  RESPONSE_TOO_LARGE: 'The Google response is larger than this server returns. Ask for less data and retry.',
+  INVALID_PAGE_TOKEN: 'Pass next_page_token exactly as returned, with the same arguments as the search that produced it, or search again without page_token.',
+  PAGE_TOKEN_EXPIRED: 'Page tokens are short-lived. Repeat the search without page_token to start again from the first page.',
+  UPSTREAM_ERROR: 'Google returned an unexpected error.',
+};
+
+// Per-API refinements of the generic hints
+const API_HINTS: Partial<Record<UpstreamApi, Partial<Record<UpstreamErrorCode, string>>>> = {
+  places: {
+    NOT_FOUND: 'The place ID or photo name is unknown or stale. Call search_places again to get a fresh place_id (and get_place_details for fresh photo names), then retry.',
+  },
+  photos: {
+    RESPONSE_TOO_LARGE: 'The photo is over the size limit. Retry with a smaller max_width_px or max_height_px.',
+  },
+  timezone: {
+    ZERO_RESULTS: 'Google has no time zone for this location (for example, open sea). Check the coordinates.',
+  },
+  airquality: {
+    INVALID_ARGUMENT: 'Air quality data is not available everywhere (coverage is by country). If the coordinates are valid, the location is probably outside coverage.',
+  },
+  routes: {
+    ZERO_RESULTS: 'No route exists between these locations for this travel mode. Try a different mode or check the origin and destination.',
+  },
+};
+
+/**
+ * A classified Google upstream failure.
+ */
+export class UpstreamError extends Error {
+  constructor(
+    public code: UpstreamErrorCode,
+    public api: UpstreamApi,
+    public upstreamMessage: string,
+    public httpStatus?: number,
+    public upstreamStatus?: string,
+  ) {
+    super(`${API_NAMES[api]} error (${upstreamStatus || httpStatus || code}): ${upstreamMessage}`);
+    this.name = 'UpstreamError';
+  }
+
+  get hint(): string {
+    return API_HINTS[this.api]?.[this.code] || HINTS[this.code];
+  }
+
+  toJSON(): any {
+    return {
+      code: this.code,
+      api: API_NAMES[this.api],
+      message: this.upstreamMessage,
+      hint: this.hint,
+      http_status: this.httpStatus,
+      upstream_status: this.upstreamStatus,
+    };
+  }
+}
+
+function classifyStatus(status: string | undefined, httpStatus: number | undefined, message: string): UpstreamErrorCode {
+  if (/not (been used|enabled|activated)|SERVICE_DISABLED|API_DISABLED/i.test(message)) {
+    return 'API_NOT_ENABLED';
+  }
+  switch (status) {
+    case 'INVALID_ARGUMENT':
+    case 'INVALID_REQUEST':
+    case 'FAILED_PRECONDITION':
+      return 'INVALID_ARGUMENT';
+    case 'PERMISSION_DENIED':
+    case 'UNAUTHENTICATED':
+    case 'REQUEST_DENIED':
+      return 'PERMISSION_DENIED';
+    case 'RESOURCE_EXHAUSTED':
+    case 'OVER_QUERY_LIMIT':
+    case 'OVER_DAILY_LIMIT':
+    case 'MAX_ELEMENTS_EXCEEDED':
+      return 'RESOURCE_EXHAUSTED';
+    case 'ZERO_RESULTS':
+      return 'ZERO_RESULTS';
+    case 'NOT_FOUND':
+      return 'NOT_FOUND';
+    case 'UNAVAILABLE':
+    case 'DEADLINE_EXCEEDED':
+      return 'UNAVAILABLE';
+  }
+  switch (httpStatus) {
+    case 400:
+      return 'INVALID_ARGUMENT';
+    case 401:
+    case 403:
+      return 'PERMISSION_DENIED';
+    case 404:
+      return 'NOT_FOUND';
+    case 429:
+      return 'RESOURCE_EXHAUSTED';
+    case 502:
+    case 503:
+    case 504:
+      return 'UNAVAILABLE';
+  }
+  return 'UPSTREAM_ERROR';
+}
+
+/**
+ * Build an UpstreamError from a failed (non-2xx) v1 API response.
+ */
+export async function upstreamErrorFromResponse(api: UpstreamApi, response: Response): Promise<UpstreamError> {
+  const errorText = await response.text();
+  let status: string | undefined;
+  let message = errorText || response.statusText;
+  let reasons = '';
+
+  try {
+    const body = JSON.parse(errorText);
+    const error = Array.isArray(body) ? body[0]?.error : body.error;
+    if (error) {
+      status = error.status;
+      message = error.message || message;
+      reasons = (error.details || []).map((detail: any) => detail.reason).filter(Boolean).join(' ');
+    }
+  } catch {
+    // Non-JSON body: keep the raw text as the message
+  }
+
+  const code = classifyStatus(status, response.status, `${message} ${reasons}`);
+  const retryAfter = response.headers.get('Retry-After');
+  if (retryAfter) {
+    message = `${message} (Retry-After: ${retryAfter})`;
+  }
+  return new UpstreamError(code, api, message, response.status, status);
+}
+
+/**
+ * Build an UpstreamError from a legacy JSON API body status (e.g. REQUEST_DENIED).
+ */
+export function upstreamErrorFromStatus(api: UpstreamApi, status: string, errorMessage?: string): UpstreamError {
+  const message = errorMessage || status;
+  return new UpstreamError(classifyStatus(status, undefined, message), api, message, undefined, status);
+}
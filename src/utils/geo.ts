@@ -0,0 +1,50 @@
+/**
+ * Small geometry helpers for coordinates in degrees.
+ */
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle (haversine) distance between two points, in meters.
+ */
+export function distanceMeters(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function wrapLongitude(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Smallest lat/lng rectangle containing a circle. Near the antimeridian the
+ * result has low.lng > high.lng, which Google reads as crossing it.
+ */
+export function boundingBox(
+  center: { lat: number; lng: number },
+  radiusMeters: number
+): { low: { lat: number; lng: number }; high: { lat: number; lng: number } } {
+  const dLat = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const low = Math.max(-90, center.lat - dLat);
+  const high = Math.min(90, center.lat + dLat);
+  const maxAbsLat = Math.max(Math.abs(low), Math.abs(high));
+  const dLng = maxAbsLat >= 90 ? 180 : dLat / Math.cos(toRadians(maxAbsLat));
+  // Circles around a pole or wider than the globe cover every longitude
+  if (dLng >= 180) {
+    return { low: { lat: low, lng: -180 }, high: { lat: high, lng: 180 } };
+  }
+  return {
+    low: { lat: low, lng: wrapLongitude(center.lng - dLng) },
+    high: { lat: high, lng: wrapLongitude(center.lng + dLng) },
+  };
+}
@@ -2,11 +2,13 @@
  * JSON-RPC 2.0 validation and utility functions for MCP.
  * 
  * Handles:
- * - Request/notification validation
+ * - Request/notification/batch validation
  * - Error code constants
  * - Response formatting
  */
 
+import { SUPPORTED_PROTOCOL_VERSIONS } from './protocol.js';
+
 // JSON-RPC 2.0 Error Codes
 export const JsonRpcError = {
   PARSE_ERROR: -32700,
@@ -14,6 +16,12 @@ export const JsonRpcError = {
   METHOD_NOT_FOUND: -32601,
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
+  // Server-defined errors (-32000 to -32099)
+  RATE_LIMITED: -32001,
+  QUOTA_EXCEEDED: -32002,
+  UNAUTHORIZED: -32003,
+  FORBIDDEN: -32004,
+  SESSION_NOT_FOUND: -32005,
 } as const;
 
 /**
@@ -37,6 +45,21 @@ export function isValidJsonRpc(data: any): boolean {
   return true;
 }
 
+/**
+ * Check if the payload is a JSON-RPC batch (array of messages).
+ */
+export function isBatch(data: any): data is any[] {
+  return Array.isArray(data);
+}
+
+/**
+ * Best-effort request ID of a possibly invalid message, for error responses.
+ */
+export function requestIdOf(data: any): string | number | null {
+  const id = data?.id;
+  return typeof id === 'string' || typeof id === 'number' ? id : null;
+}
+
 /**
  * Check if JSON-RPC message is a notification (no response expected).
  */
@@ -83,7 +106,5 @@ export function validateMcpProtocolVersion(version: string | undefined): boolean
     return false;
   }
 
-  // Currently support 2024-11-05
-  const supportedVersions = ['2024-11-05'];
-  return supportedVersions.includes(version);
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version);
 }
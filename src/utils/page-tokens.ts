@@ -0,0 +1,91 @@
+/**
+ * Opaque, signed page tokens for paginated tools.
+ *
+ * A token wraps Google's own page token together with a hash of the request
+ * it belongs to and an expiry, signed with HMAC-SHA256. Clients cannot forge
+ * or edit one, reuse it for a different request, or use it after
+ * PAGE_TOKEN_TTL_MS (default 5 minutes, about as long as Google keeps its
+ * own tokens valid).
+ *
+ * The signing key is PAGE_TOKEN_SECRET, or a random key per process, in which
+ * case tokens do not survive a restart.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export type PageTokenFailure = 'malformed' | 'expired' | 'mismatch';
+
+export class PageTokenError extends Error {
+  constructor(public reason: PageTokenFailure, message: string) {
+    super(message);
+    this.name = 'PageTokenError';
+  }
+}
+
+export interface PageState {
+  // Google's page token for the next page
+  upstreamToken: string;
+  // 1-based number of the page this token fetches
+  page: number;
+}
+
+export const PAGE_TOKEN_TTL_MS = parseInt(process.env.PAGE_TOKEN_TTL_MS || '', 10) || 5 * 60 * 1000;
+const SECRET = process.env.PAGE_TOKEN_SECRET || randomBytes(32).toString('hex');
+
+function sign(body: string): string {
+  return createHmac('sha256', SECRET).update(body).digest('base64url');
+}
+
+/**
+ * Hash of the request a token is issued for. Callers must build the request
+ * the same way each time (same key order) for tokens to match.
+ */
+function requestHash(scope: string, request: any): string {
+  return createHash('sha256').update(`${scope}:${JSON.stringify(request)}`).digest('base64url');
+}
+
+/**
+ * Wrap Google's page token. `issuedAt` is when Google handed it out (earlier
+ * than now for a cached page), so the wrapper expires no later than it does.
+ */
+export function issuePageToken(scope: string, request: any, state: PageState, issuedAt: number = Date.now()): string {
+  const body = Buffer.from(JSON.stringify({
+    r: requestHash(scope, request),
+    t: state.upstreamToken,
+    p: state.page,
+    e: issuedAt + PAGE_TOKEN_TTL_MS,
+  })).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Verify a token against the request it is being used with and return the
+ * page state. Throws PageTokenError when it is forged, expired or was issued
+ * for different arguments.
+ */
+export function readPageToken(scope: string, request: any, token: string): PageState {
+  const [body, signature, ...rest] = token.split('.');
+  const expected = body ? sign(body) : '';
+  if (
+    rest.length > 0
+    || !signature
+    || signature.length !== expected.length
+    || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    throw new PageTokenError('malformed', 'page_token is not a token issued by this server (or the server restarted since)');
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    throw new PageTokenError('malformed', 'page_token could not be decoded');
+  }
+  if (Date.now() > payload.e) {
+    throw new PageTokenError('expired', `page_token expired ${Math.round((Date.now() - payload.e) / 1000)}s ago`);
+  }
+  if (payload.r !== requestHash(scope, request)) {
+    throw new PageTokenError('mismatch', 'page_token belongs to a search with different arguments; pass the same arguments as the first page');
+  }
+  return { upstreamToken: payload.t, page: payload.p };
+}
@@ -0,0 +1,52 @@
+/**
+ * MCP protocol versions, negotiation and per-version features.
+ *
+ * Shared by the stdio and Streamable HTTP transports so both advertise the
+ * same server info and capabilities and switch behaviour the same way.
+ */
+
+// Newest first; protocol versions are ISO dates, so they compare as strings
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+export const SERVER_INFO = {
+  name: 'googleplaces-mcp-server',
+  version: '1.0.0',
+};
+
+export const SERVER_CAPABILITIES = {
+  tools: {},
+  logging: {},
+};
+
+/**
+ * What a negotiated protocol version lets the server send.
+ */
+export interface ProtocolFeatures {
+  // Tool results carry structuredContent; tools declare outputSchema and title (2025-06-18)
+  structuredContent: boolean;
+  outputSchema: boolean;
+  toolTitles: boolean;
+  // Tools declare behaviour annotations such as readOnlyHint (2025-03-26)
+  toolAnnotations: boolean;
+}
+
+/**
+ * Pick the protocol version for a session: the client's requested version when
+ * we support it (it is the client's newest), otherwise our newest.
+ */
+export function negotiateProtocolVersion(requested: string | undefined): string {
+  if (requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return LATEST_PROTOCOL_VERSION;
+}
+
+export function protocolFeatures(version: string): ProtocolFeatures {
+  return {
+    structuredContent: version >= '2025-06-18',
+    outputSchema: version >= '2025-06-18',
+    toolTitles: version >= '2025-06-18',
+    toolAnnotations: version >= '2025-03-26',
+  };
+}
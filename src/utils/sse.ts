@@ -5,20 +5,22 @@
  * - Each SSE event is one or more "data:" lines followed by blank line
  * - Each data line contains a JSON-RPC message
  * - Multiple data lines for same event if JSON is split
+ * - An optional "id:" line lets clients resume with Last-Event-ID
  */
 
 /**
  * Format a JSON-RPC message as an SSE event.
  */
-export function formatSseEvent(data: any): string {
+export function formatSseEvent(data: any, eventId?: string | number): string {
   const jsonStr = JSON.stringify(data);
-  return `data: ${jsonStr}\n\n`;
+  const idLine = eventId !== undefined ? `id: ${eventId}\n` : '';
+  return `${idLine}data: ${jsonStr}\n\n`;
 }
 
 /**
  * Format a JSON-RPC error as an SSE event.
  */
-export function formatSseError(errorId: string | number, code: number, message: string): string {
+export function formatSseError(errorId: string | number | null, code: number, message: string): string {
   const errorResponse = {
     jsonrpc: '2.0',
     id: errorId,
@@ -33,8 +35,8 @@ export function formatSseError(errorId: string | number, code: number, message:
 /**
  * Async generator for streaming multiple SSE events.
  */
-export async function* sseGenerator(messages: any[]): AsyncGenerator<string, void, unknown> {
-  for (const message of messages) {
-    yield formatSseEvent(message);
+export async function* sseGenerator(events: { id?: string | number; data: any }[]): AsyncGenerator<string, void, unknown> {
+  for (const event of events) {
+    yield formatSseEvent(event.data, event.id);
   }
 }
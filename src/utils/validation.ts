@@ -0,0 +1,153 @@
+/**
+ * Tool argument validation against a tool's declared inputSchema.
+ *
+ * Supports the JSON Schema subset the tool schemas use:
+ * - type (object, array, string, number, integer, boolean)
+ * - properties, required, items
+ * - enum, minimum, maximum, minItems, maxItems, minLength, pattern
+ * - format (local-date-time only)
+ * - anyOf (e.g. "place_id or lat/lng")
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Local wall-clock time naming a real calendar date and time, e.g.
+ * "2025-06-01T08:30" but not "2025-02-30T10:00" or "2025-06-01T25:00".
+ */
+function isLocalDateTime(value: string): boolean {
+  const match = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2})(:\d{2})?$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const normalized = `${match[1]}${match[2] || ':00'}`;
+  const parsed = Date.parse(`${normalized}Z`);
+  return !isNaN(parsed) && new Date(parsed).toISOString().substring(0, 19) === normalized;
+}
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'local-date-time': isLocalDateTime,
+};
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${base}[${key}]`;
+  }
+  return base ? `${base}.${key}` : key;
+}
+
+function describeBranch(schema: any): string {
+  if (Array.isArray(schema.required) && schema.required.length > 0) {
+    return schema.required.join(' + ');
+  }
+  return schema.description || JSON.stringify(schema);
+}
+
+function validateValue(schema: any, value: any, path: string, issues: ValidationIssue[]): void {
+  if (!schema || typeof schema !== 'object') {
+    return;
+  }
+  const label = path || 'arguments';
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path: label, message: `must be of type ${schema.type}, got ${typeOf(value)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path: label, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path: label, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path: label, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path: label, message: `must be at least ${schema.minLength} character(s)` });
+  }
+
+  if (typeof value === 'string' && schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ path: label, message: `must match ${schema.pattern}` });
+  } else if (typeof value === 'string' && FORMATS[schema.format] && !FORMATS[schema.format](value)) {
+    issues.push({ path: label, message: `must be a valid ${schema.format}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path: label, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path: label, message: `must contain at most ${schema.maxItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(schema.items, item, joinPath(path, index), issues));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        validateValue(propertySchema, value[key], joinPath(path, key), issues);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matched = schema.anyOf.some((branch: any) => {
+      const branchIssues: ValidationIssue[] = [];
+      validateValue(branch, value, path, branchIssues);
+      return branchIssues.length === 0;
+    });
+    if (!matched) {
+      issues.push({ path: label, message: `must provide one of: ${schema.anyOf.map(describeBranch).join(' | ')}` });
+    }
+  }
+}
+
+/**
+ * Validate tool arguments; returns an empty list when they are valid.
+ */
+export function validateArguments(schema: any, args: any): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateValue(schema, args, '', issues);
+  return issues;
+}
+
+/**
+ * One-line summary of validation issues for error messages.
+ */
+export function formatValidationIssues(toolName: string, issues: ValidationIssue[]): string {
+  return `Invalid arguments for ${toolName}: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`;
+}